@@ -1,90 +1,416 @@
-import { Plugin, TFile } from "obsidian";
-import { ClaudianSettings, DEFAULT_SETTINGS, ClaudianSettingTab } from "./src/settings";
-import { ClaudianModal, ChatStorage, ChatTurnData } from "./src/modal";
+import * as path from "path";
+import { MarkdownView, Menu, Notice, Plugin, TFile, TFolder, WorkspaceLeaf } from "obsidian";
+import {
+  ClaudianSettings,
+  DEFAULT_SETTINGS,
+  ClaudianSettingTab,
+  migratePermissions,
+} from "./src/settings";
+import { ClaudianModal } from "./src/modal";
+import { PermissionBridge } from "./src/permission-bridge";
+import { ChatData, ChatStorage, createFileChatStorage } from "./src/chat-storage";
+import { CHAT_VIEW_TYPE, ClaudianChatView } from "./src/chat-view";
+import { BackgroundRun, RunManager, truncate } from "./src/run-manager";
+import { captureEditorContext, captureSelectionTarget } from "./src/editor-context";
+import { SavedPrompt, applyPromptOverrides, renderPromptTemplate } from "./src/saved-prompts";
+import { BatchRun, BatchTarget, writeBatchReport } from "./src/batch";
+import { BatchModal, BatchRequest } from "./src/batch-modal";
+import {
+  AutomationData,
+  AutomationHistory,
+  AutomationManager,
+  createDataAutomationHistory,
+} from "./src/automations";
+import { UsageData, UsageLedger } from "./src/usage-ledger";
+import { createDataStore } from "./src/data-store";
+import { USAGE_VIEW_TYPE, ClaudianUsageView } from "./src/usage-view";
+import { Transcript, TranscriptStore } from "./src/transcripts";
+import { TranscriptPickerModal } from "./src/transcript-picker";
 
-interface StoredData extends Record<string, unknown> {
-  _chat?: { sessionId: string | null; turns: ChatTurnData[] };
+interface StoredData extends Record<string, unknown>, ChatData, AutomationData, UsageData {}
+
+interface OpenModalOptions {
+  // Background run to reattach to; defaults to the newest one nobody is watching
+  run?: BackgroundRun;
+  // Saved prompt to start right away
+  savedPrompt?: SavedPrompt;
+  // Recorded run to play back instead of running Claude
+  replay?: Transcript;
 }
 
 export default class ClaudianPlugin extends Plugin {
   settings!: ClaudianSettings;
+  readonly permissionBridge = new PermissionBridge();
+  private readonly dataStore = createDataStore<StoredData>(
+    async () => (await this.loadData()) as StoredData | null,
+    (data) => this.saveData(data)
+  );
+  readonly usageLedger = new UsageLedger(this.dataStore);
+  readonly runManager = new RunManager(this.usageLedger);
+  readonly transcripts = new TranscriptStore(
+    () => this.getTranscriptFolder(),
+    () => this.settings.debugTranscripts
+  );
+  chatStorage!: ChatStorage;
+  automationHistory!: AutomationHistory;
+  // Null until the workspace layout is ready, or without a vault path
+  automations: AutomationManager | null = null;
+  private statusBarEl!: HTMLElement;
+  private batches: Set<BatchRun> = new Set();
 
   async onload(): Promise<void> {
     await this.loadSettings();
 
+    this.chatStorage = createFileChatStorage({
+      getFolder: () => this.getChatFolder(),
+      getLimitBytes: () => this.settings.chatHistoryLimitMb * 1024 * 1024,
+      legacy: this.dataStore,
+    });
+
+    await this.usageLedger.initialize();
+
+    this.automationHistory = createDataAutomationHistory(this.dataStore);
+
     if (this.settings.clearChatOnStart) {
-      const data: StoredData = (await this.loadData() as StoredData | null) ?? {};
-      delete data._chat;
-      await this.saveData(data);
+      const active = await this.chatStorage.getActive();
+      await this.chatStorage.update(active.id, { sessionId: null, turns: [], otherTurns: [] });
     }
 
     this.addSettingTab(new ClaudianSettingTab(this.app, this));
 
+    this.registerView(CHAT_VIEW_TYPE, (leaf) => new ClaudianChatView(leaf, this));
+    this.registerView(USAGE_VIEW_TYPE, (leaf) => new ClaudianUsageView(leaf, this));
+
     this.addCommand({
       id: "open-claudian-modal",
       name: "Open",
-      callback: () => this.openModal(),
+      callback: () => void this.openModal(),
+    });
+
+    this.addCommand({
+      id: "open-chat-view",
+      name: "Open chat in sidebar",
+      callback: () => void this.openChatView(),
+    });
+
+    this.addCommand({
+      id: "open-usage-report",
+      name: "Open usage report",
+      callback: () => void this.openUsageView(),
+    });
+
+    this.addCommand({
+      id: "replay-transcript",
+      name: "Replay debug transcript",
+      callback: () => this.openTranscriptPicker(),
     });
 
-    this.addRibbonIcon("bot", "Open", () => this.openModal());
+    this.addCommand({
+      id: "run-batch",
+      name: "Run quick action on multiple notes",
+      callback: () => this.openBatchModal(),
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (!(file instanceof TFolder)) return;
+        menu.addItem((item) =>
+          item
+            .setTitle("Run quick action on folder")
+            .setIcon("bot")
+            .onClick(() => this.openBatchModal({ kind: "folder", value: file.path }))
+        );
+      })
+    );
+
+    this.registerSavedPromptCommands();
+
+    this.addRibbonIcon("bot", "Open", () => void this.openModal());
+
+    // Background quick actions
+    this.statusBarEl = this.addStatusBarItem();
+    this.statusBarEl.addClass("qlaude-status-bar");
+    this.statusBarEl.addEventListener("click", (e) => this.showRunsMenu(e));
+    this.register(this.runManager.onChange(() => this.updateStatusBar()));
+    this.updateStatusBar();
+
+    this.app.workspace.onLayoutReady(() => void this.startAutomations());
+  }
+
+  onunload(): void {
+    this.runManager.cancelAll();
+    for (const batch of this.batches) batch.cancel();
+    this.permissionBridge.stop();
   }
 
   async loadSettings(): Promise<void> {
-    const data = (await this.loadData() as StoredData | null) ?? {};
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
-    // Ensure nested permissions object is fully merged
-    this.settings.permissions = Object.assign(
-      {},
-      DEFAULT_SETTINGS.permissions,
-      this.settings.permissions
+    const data = await this.dataStore.load();
+    // data.json also holds usage and automation history; those stay out of the settings
+    const stored = Object.fromEntries(Object.entries(data).filter(([key]) => key in DEFAULT_SETTINGS));
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, stored);
+    // Ensure nested permissions object is fully merged (and upgraded from booleans)
+    this.settings.permissions = migratePermissions(
+      data.permissions as Parameters<typeof migratePermissions>[0]
     );
+    this.settings.folderRules = [...(this.settings.folderRules ?? [])];
+    this.settings.savedPrompts = [...(this.settings.savedPrompts ?? [])];
+    this.settings.automations = [...(this.settings.automations ?? [])];
   }
 
   async saveSettings(): Promise<void> {
-    // Merge with existing data so chat persistence (stored under _chat) is preserved
-    const existing = (await this.loadData() as StoredData | null) ?? {};
-    await this.saveData({ ...existing, ...this.settings });
+    // Merge with existing data so usage and automation history are preserved
+    await this.dataStore.modify((data) => Object.assign(data, this.settings));
   }
 
-  openModal(): void {
+  /**
+   * Adds a command for every saved prompt. Called again whenever prompts are
+   * edited; re-adding an id replaces the command, and removed prompts hide
+   * their command until the next reload.
+   */
+  registerSavedPromptCommands(): void {
+    for (const prompt of this.settings.savedPrompts) {
+      const id = prompt.id;
+      this.addCommand({
+        id: `saved-prompt-${id}`,
+        name: `Run saved prompt: ${prompt.name || "Untitled"}`,
+        checkCallback: (checking) => {
+          const current = this.settings.savedPrompts.find((p) => p.id === id);
+          if (!current?.body.trim()) return false;
+          if (!checking) void this.openModal({ savedPrompt: current });
+          return true;
+        },
+      });
+    }
+  }
+
+  async openModal(options: OpenModalOptions = {}): Promise<void> {
     const vaultPath = this.getVaultPath();
     if (!vaultPath) {
       console.error("Claudian: Could not determine vault path");
       return;
     }
 
+    await this.startPermissionBridge();
+
+    const { savedPrompt, replay } = options;
+    const run = savedPrompt || replay
+      ? undefined
+      : options.run ?? this.runManager.list().find((r) => !r.isAttached);
     const activeFile = this.app.workspace.getActiveFile();
-    const currentFilePath: string | null = activeFile instanceof TFile
-      ? activeFile.path
-      : null;
-
-    const storage: ChatStorage = {
-      load: async () => {
-        const data: StoredData = (await this.loadData() as StoredData | null) ?? {};
-        return data._chat ?? { sessionId: null, turns: [] };
-      },
-      save: async (sessionId, turns) => {
-        const data: StoredData = (await this.loadData() as StoredData | null) ?? {};
-        data._chat = { sessionId, turns };
-        await this.saveData(data);
-      },
-      clear: async () => {
-        const data: StoredData = (await this.loadData() as StoredData | null) ?? {};
-        delete data._chat;
-        await this.saveData(data);
+    const currentFilePath: string | null = run
+      ? run.currentFilePath
+      : activeFile instanceof TFile
+        ? activeFile.path
+        : null;
+
+    // Selection, cursor line and heading section; not used when reopening a run
+    const editor = run || replay ? undefined : this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+
+    const editorContext = editor ? captureEditorContext(editor) : undefined;
+
+    new ClaudianModal(this.app, {
+      settings: this.settings,
+      vaultPath,
+      storage: this.chatStorage,
+      permissionBridge: this.permissionBridge,
+      transcripts: this.transcripts,
+      runManager: this.runManager,
+      usageLedger: this.usageLedger,
+      getCurrentFilePath: () => currentFilePath,
+      attachRun: run,
+      editorContext,
+      selectionTarget: editor ? captureSelectionTarget(editor) ?? undefined : undefined,
+      templateContext: {
+        filePath: currentFilePath,
+        selection: editorContext?.selection ?? "",
+        frontmatter: activeFile
+          ? this.app.metadataCache.getFileCache(activeFile)?.frontmatter ?? null
+          : null,
       },
-    };
+      savedPrompt,
+      autoRun: !!savedPrompt,
+      replay,
+    }).open();
+  }
+
+  private openTranscriptPicker(): void {
+    const files = this.transcripts.list();
+    if (files.length === 0) {
+      new Notice("No debug transcripts recorded yet. Turn on recording in the plugin settings.");
+      return;
+    }
+    new TranscriptPickerModal(this.app, files, (file) => {
+      let replay: Transcript;
+      try {
+        replay = this.transcripts.read(file);
+      } catch (err) {
+        new Notice(`Could not read the transcript: ${(err as Error).message}`);
+        return;
+      }
+      void this.openModal({ replay });
+    }).open();
+  }
+
+  openBatchModal(target?: BatchTarget): void {
+    const vaultPath = this.getVaultPath();
+    if (!vaultPath) {
+      console.error("Claudian: Could not determine vault path");
+      return;
+    }
+    new BatchModal(this.app, {
+      savedPrompts: this.settings.savedPrompts,
+      target,
+      startBatch: (request) => this.startBatch(request, vaultPath),
+    }).open();
+  }
 
-    new ClaudianModal(
-      this.app,
-      this.settings,
+  // The report is written even if the batch modal was closed in the meantime
+  private startBatch(
+    request: BatchRequest,
+    vaultPath: string
+  ): { batch: BatchRun; report: Promise<TFile | null> } {
+    const { prompt, files, target, savedPrompt } = request;
+    const batch = new BatchRun({
+      prompt,
+      renderPrompt: (path) => {
+        const file = files.find((f) => f.path === path);
+        return renderPromptTemplate(prompt, {
+          filePath: path,
+          selection: "",
+          frontmatter: file ? this.app.metadataCache.getFileCache(file)?.frontmatter ?? null : null,
+        });
+      },
+      paths: files.map((f) => f.path),
+      target,
       vaultPath,
-      currentFilePath,
-      storage
-    ).open();
+      settings: savedPrompt ? applyPromptOverrides(this.settings, savedPrompt) : this.settings,
+      permissionBridge: this.permissionBridge,
+      transcripts: this.transcripts,
+      concurrency: this.settings.batchConcurrency,
+      usageLedger: this.usageLedger,
+    });
+    this.batches.add(batch);
+
+    const report = (async () => {
+      await this.startPermissionBridge();
+      batch.start();
+      await batch.done;
+      this.batches.delete(batch);
+      const summary =
+        `${batch.count("done")} done, ${batch.count("error")} failed, ` +
+        `${batch.count("cancelled")} cancelled`;
+      try {
+        const file = await writeBatchReport(this.app, batch, this.settings.batchReportFolder);
+        new Notice(`Qlaude batch finished: ${summary}. Report: ${file.path}`);
+        return file;
+      } catch (err) {
+        new Notice(
+          `Qlaude batch finished: ${summary}. Could not write the report: ${(err as Error).message}`
+        );
+        return null;
+      }
+    })();
+    return { batch, report };
+  }
+
+  private updateStatusBar(): void {
+    const runs = this.runManager.list();
+    const running = this.runManager.runningCount;
+    const waiting = runs.filter((r) => r.isWaitingForApproval).length;
+    const ready = runs.length - running;
+
+    const parts: string[] = [];
+    if (running > 0) parts.push(`${running} running`);
+    if (waiting > 0) parts.push(`${waiting} awaiting approval`);
+    if (ready > 0) parts.push(`${ready} ready`);
+
+    this.statusBarEl.toggle(parts.length > 0);
+    this.statusBarEl.setText(`Qlaude: ${parts.join(", ")}`);
+    this.statusBarEl.setAttr("aria-label", "Show background runs");
+  }
+
+  private showRunsMenu(e: MouseEvent): void {
+    const runs = this.runManager.list();
+    if (runs.length === 1) {
+      void this.openModal({ run: runs[0] });
+      return;
+    }
+
+    const menu = new Menu();
+    for (const run of runs) {
+      const state = run.isWaitingForApproval
+        ? "awaiting approval"
+        : run.status === "running" ? "running" : run.status;
+      menu.addItem((item) =>
+        item
+          .setTitle(`${truncate(run.prompt, 40)} (${state})`)
+          .onClick(() => void this.openModal({ run }))
+      );
+    }
+    menu.showAtMouseEvent(e);
+  }
+
+  async openChatView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(CHAT_VIEW_TYPE)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: CHAT_VIEW_TYPE, active: true });
+    }
+    if (workspace.rightSplit.collapsed) workspace.rightSplit.expand();
+    workspace.setActiveLeaf(leaf, { focus: true });
+  }
+
+  private async startAutomations(): Promise<void> {
+    const vaultPath = this.getVaultPath();
+    if (!vaultPath) return;
+    await this.startPermissionBridge();
+    this.automations = this.addChild(
+      new AutomationManager({
+        app: this.app,
+        vaultPath,
+        getSettings: () => this.settings,
+        permissionBridge: this.permissionBridge,
+        transcripts: this.transcripts,
+        history: this.automationHistory,
+        usageLedger: this.usageLedger,
+      })
+    );
+  }
+
+  async openUsageView(): Promise<void> {
+    const { workspace } = this.app;
+    const existing = workspace.getLeavesOfType(USAGE_VIEW_TYPE)[0];
+    const leaf = existing ?? workspace.getLeaf("tab");
+    if (!existing) await leaf.setViewState({ type: USAGE_VIEW_TYPE, active: true });
+    workspace.setActiveLeaf(leaf, { focus: true });
+  }
+
+  // Checks every tool call the CLI permission rules leave open
+  async startPermissionBridge(): Promise<void> {
+    try {
+      await this.permissionBridge.start();
+    } catch (err) {
+      console.error("Claudian: Could not start permission prompt server", err);
+    }
+  }
+
+  // Conversations live in the plugin's own folder
+  private getChatFolder(): string | null {
+    const vaultPath = this.getVaultPath();
+    if (!vaultPath || !this.manifest.dir) return null;
+    return path.join(vaultPath, this.manifest.dir, "chats");
+  }
+
+  // Debug transcripts live in the plugin's own folder
+  private getTranscriptFolder(): string | null {
+    const vaultPath = this.getVaultPath();
+    if (!vaultPath || !this.manifest.dir) return null;
+    return path.join(vaultPath, this.manifest.dir, "transcripts");
   }
 
-  private getVaultPath(): string | null {
+  getVaultPath(): string | null {
     const adapter = this.app.vault.adapter as { getBasePath?: () => string };
     if (typeof adapter.getBasePath === "function") {
       return adapter.getBasePath();
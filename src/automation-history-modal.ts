@@ -0,0 +1,74 @@
+import { App, Modal, Setting, moment } from "obsidian";
+import type { AutomationHistory, AutomationRunRecord } from "./automations";
+
+const TRIGGER_LABELS: Record<AutomationRunRecord["trigger"], string> = {
+  schedule: "Schedule",
+  create: "Note created",
+  modify: "Note modified",
+  startup: "Startup",
+  manual: "Run now",
+};
+
+/** Lists the recent runs of one automation, newest first. */
+export class AutomationHistoryModal extends Modal {
+  constructor(
+    app: App,
+    private name: string,
+    private history: AutomationHistory,
+    private automationId: string
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(`Run history: ${this.name}`);
+    void this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async render(): Promise<void> {
+    const records = await this.history.list(this.automationId);
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (records.length === 0) {
+      contentEl.createDiv({ text: "This automation has not run yet.", cls: "qlaude-automation-history__empty" });
+      return;
+    }
+
+    const listEl = contentEl.createDiv("qlaude-automation-history");
+    for (const record of records) {
+      const itemEl = listEl.createDiv(
+        `qlaude-automation-history__item qlaude-automation-history__item--${record.status}`
+      );
+      const seconds = Math.round((record.finishedAt - record.startedAt) / 1000);
+      const parts = [
+        moment(record.startedAt).format("YYYY-MM-DD HH:mm"),
+        TRIGGER_LABELS[record.trigger],
+        record.status === "done" ? "Done" : "Failed",
+        `${seconds}s`,
+      ];
+      if (record.costUsd > 0) parts.push(`$${record.costUsd.toFixed(4)}`);
+      itemEl.createDiv({ text: parts.join(" · "), cls: "qlaude-automation-history__meta" });
+      if (record.filePath) {
+        itemEl.createDiv({ text: record.filePath, cls: "qlaude-automation-history__file" });
+      }
+      if (record.output) {
+        itemEl.createEl("pre", { text: record.output, cls: "qlaude-automation-history__output" });
+      }
+    }
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Clear history")
+        .setWarning()
+        .onClick(async () => {
+          await this.history.clear(this.automationId);
+          await this.render();
+        })
+    );
+  }
+}
@@ -0,0 +1,380 @@
+import * as path from "path";
+import { App, Component, Notice, TAbstractFile, TFile, moment } from "obsidian";
+import { ClaudeRunner, RunUsage, runClaude } from "./claude-runner";
+import type { DataStore } from "./data-store";
+import type { PermissionBridge } from "./permission-bridge";
+import { withoutAskPermissions } from "./permissions";
+import type { ClaudianPermissions, ClaudianSettings } from "./settings";
+import {
+  applyPermissionOverrides,
+  applyPromptOverrides,
+  renderPromptTemplate,
+} from "./saved-prompts";
+import { hasTag, isInFolder } from "./batch";
+import { resolveToolPath } from "./snapshots";
+import { truncate } from "./run-manager";
+import type { TranscriptStore } from "./transcripts";
+import type { UsageLedger } from "./usage-ledger";
+
+export type AutomationTrigger = "schedule" | "create" | "modify" | "startup";
+
+// "manual" is a run started with Run now from the settings tab
+export type AutomationRunTrigger = AutomationTrigger | "manual";
+
+export interface Automation {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Saved prompt to run
+  promptId: string;
+  trigger: AutomationTrigger;
+  // "HH:mm", for the daily schedule
+  time: string;
+  // Only notes inside this folder trigger create/modify; empty means anywhere
+  folder: string;
+  // Only notes with this tag trigger create/modify; empty means any note
+  tag: string;
+  // Applied on top of the saved prompt's own overrides
+  permissions: Partial<ClaudianPermissions>;
+}
+
+export const AUTOMATION_TRIGGERS: Record<AutomationTrigger, string> = {
+  schedule: "Every day at",
+  create: "When a note is created",
+  modify: "When a note is modified",
+  startup: "When Obsidian starts",
+};
+
+export function newAutomation(): Automation {
+  return {
+    id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+    name: "",
+    enabled: false,
+    promptId: "",
+    trigger: "schedule",
+    time: "18:00",
+    folder: "",
+    tag: "",
+    permissions: {},
+  };
+}
+
+export interface AutomationRunRecord {
+  trigger: AutomationRunTrigger;
+  // Note that triggered the run, which is also its active file
+  filePath: string | null;
+  startedAt: number;
+  finishedAt: number;
+  status: "done" | "error";
+  // Claude's final answer or the error, shortened
+  output: string;
+  costUsd: number;
+}
+
+export interface AutomationHistory {
+  // Newest first
+  list: (automationId: string) => Promise<AutomationRunRecord[]>;
+  add: (automationId: string, record: AutomationRunRecord) => Promise<void>;
+  clear: (automationId: string) => Promise<void>;
+}
+
+export interface AutomationData {
+  _automationRuns?: Record<string, AutomationRunRecord[]>;
+}
+
+// Runs kept per automation
+const HISTORY_LIMIT = 20;
+const MAX_OUTPUT_CHARS = 2000;
+
+/** AutomationHistory backed by the plugin's data.json. */
+export function createDataAutomationHistory(data: DataStore<AutomationData>): AutomationHistory {
+  return {
+    list: async (id) => (await data.load())._automationRuns?.[id] ?? [],
+
+    add: (id, record) =>
+      data.modify((stored) => {
+        const runs = (stored._automationRuns ??= {});
+        runs[id] = [record, ...(runs[id] ?? [])].slice(0, HISTORY_LIMIT);
+      }),
+
+    clear: (id) =>
+      data.modify((stored) => {
+        delete stored._automationRuns?.[id];
+      }),
+  };
+}
+
+// Notes settle for this long after their last change before a create/modify automation runs
+const FILE_EVENT_DELAY_MS = 5000;
+// Changes to a note an automation touched are ignored for this long after the run
+const SELF_CHANGE_GRACE_MS = 10000;
+const SCHEDULE_CHECK_MS = 30000;
+
+interface AutomationJob {
+  trigger: AutomationRunTrigger;
+  filePath: string | null;
+}
+
+export interface AutomationManagerOptions {
+  app: App;
+  vaultPath: string;
+  getSettings: () => ClaudianSettings;
+  permissionBridge: PermissionBridge;
+  transcripts: TranscriptStore;
+  history: AutomationHistory;
+  usageLedger: UsageLedger;
+}
+
+/**
+ * Runs automations in the background. Loaded once the workspace layout is
+ * ready, so the create events Obsidian fires while indexing the vault are not
+ * mistaken for new notes. Each automation runs one job at a time and queues
+ * the rest; "ask" permissions are refused since nobody is there to answer.
+ */
+export class AutomationManager extends Component {
+  private app: App;
+  private running: Map<string, ClaudeRunner> = new Map();
+  private queues: Map<string, AutomationJob[]> = new Map();
+  private fileTimers: Map<string, number> = new Map();
+  // Vault-relative path -> time until which its changes are the automation's own
+  private selfChanges: Map<string, number> = new Map();
+  private lastScheduled: Map<string, number> = new Map();
+  private stopped = false;
+
+  constructor(private options: AutomationManagerOptions) {
+    super();
+    this.app = options.app;
+  }
+
+  onload(): void {
+    const { vault, metadataCache } = this.app;
+    this.registerEvent(vault.on("create", (file) => this.handleFileEvent("create", file)));
+    // Fires once the note's tags are indexed, unlike the vault modify event
+    this.registerEvent(metadataCache.on("changed", (file) => this.handleFileEvent("modify", file)));
+
+    void this.loadLastScheduled().then(() => {
+      this.checkSchedules();
+      this.registerInterval(window.setInterval(() => this.checkSchedules(), SCHEDULE_CHECK_MS));
+    });
+
+    for (const automation of this.enabled("startup")) {
+      this.enqueue(automation, { trigger: "startup", filePath: null });
+    }
+  }
+
+  onunload(): void {
+    this.stopped = true;
+    for (const runner of this.running.values()) runner.kill();
+    this.running.clear();
+    this.queues.clear();
+    for (const timer of this.fileTimers.values()) window.clearTimeout(timer);
+    this.fileTimers.clear();
+  }
+
+  isRunning(automationId: string): boolean {
+    return this.running.has(automationId);
+  }
+
+  /** Runs an automation straight away with the active note, whatever its trigger. */
+  runNow(automation: Automation): void {
+    const filePath = this.app.workspace.getActiveFile()?.path ?? null;
+    this.enqueue(automation, { trigger: "manual", filePath });
+  }
+
+  private enabled(trigger: AutomationTrigger): Automation[] {
+    return this.options
+      .getSettings()
+      .automations.filter((a) => a.enabled && a.trigger === trigger);
+  }
+
+  private find(id: string): Automation | undefined {
+    return this.options.getSettings().automations.find((a) => a.id === id);
+  }
+
+  private handleFileEvent(trigger: "create" | "modify", file: TAbstractFile): void {
+    if (!(file instanceof TFile) || file.extension !== "md") return;
+    if (this.isOwnChange(file.path)) return;
+
+    for (const automation of this.enabled(trigger)) {
+      if (!isInFolder(file.path, automation.folder)) continue;
+      const key = `${automation.id}\n${file.path}`;
+      const pending = this.fileTimers.get(key);
+      if (pending !== undefined) window.clearTimeout(pending);
+      this.fileTimers.set(
+        key,
+        window.setTimeout(() => {
+          this.fileTimers.delete(key);
+          this.handleSettledFile(automation.id, trigger, file.path);
+        }, FILE_EVENT_DELAY_MS)
+      );
+    }
+  }
+
+  // Rechecked after the delay: the automation may have changed and the tag may be gone
+  private handleSettledFile(id: string, trigger: "create" | "modify", filePath: string): void {
+    const automation = this.find(id);
+    if (!automation?.enabled || automation.trigger !== trigger) return;
+    const file = this.app.vault.getAbstractFileByPath(filePath);
+    if (!(file instanceof TFile) || !isInFolder(file.path, automation.folder)) return;
+    if (this.isOwnChange(filePath)) return;
+    if (automation.tag.trim() && !hasTag(this.app, file, automation.tag)) return;
+    this.enqueue(automation, { trigger, filePath });
+  }
+
+  // Notes an automation is working on, or finished with moments ago, don't retrigger it
+  private isOwnChange(filePath: string): boolean {
+    const until = this.selfChanges.get(filePath);
+    if (until === undefined) return false;
+    if (until > Date.now()) return true;
+    this.selfChanges.delete(filePath);
+    return false;
+  }
+
+  private async loadLastScheduled(): Promise<void> {
+    for (const automation of this.options.getSettings().automations) {
+      const records = await this.options.history.list(automation.id);
+      const last = records.find((r) => r.trigger === "schedule");
+      if (last) this.lastScheduled.set(automation.id, last.startedAt);
+    }
+  }
+
+  // A run missed while Obsidian was closed happens on the next check the same
+  // day. An automation that has never run starts counting from now, so
+  // enabling one after its time waits for the next day.
+  private checkSchedules(): void {
+    const now = moment();
+    for (const automation of this.enabled("schedule")) {
+      const last = this.lastScheduled.get(automation.id);
+      if (last === undefined) {
+        this.lastScheduled.set(automation.id, now.valueOf());
+        continue;
+      }
+      const due = moment(automation.time.trim(), "HH:mm", true);
+      if (!due.isValid() || now.isBefore(due) || moment(last).isSameOrAfter(due)) continue;
+      this.lastScheduled.set(automation.id, now.valueOf());
+      this.enqueue(automation, { trigger: "schedule", filePath: null });
+    }
+  }
+
+  private enqueue(automation: Automation, job: AutomationJob): void {
+    const queue = this.queues.get(automation.id) ?? [];
+    if (queue.some((j) => j.filePath === job.filePath && j.trigger === job.trigger)) return;
+    queue.push(job);
+    this.queues.set(automation.id, queue);
+    if (!this.running.has(automation.id)) this.runNext(automation.id);
+  }
+
+  private runNext(id: string): void {
+    const job = this.queues.get(id)?.shift();
+    const automation = this.find(id);
+    if (!job || !automation) {
+      this.queues.delete(id);
+      return;
+    }
+
+    const settings = this.options.getSettings();
+    const prompt = settings.savedPrompts.find((p) => p.id === automation.promptId);
+    const startedAt = Date.now();
+    const label = automation.name || "Untitled";
+    if (!prompt?.body.trim()) {
+      void this.record(automation, job, startedAt, "error", "The saved prompt no longer exists.", 0);
+      this.runNext(id);
+      return;
+    }
+    const blocked = this.options.usageLedger.blockedByBudget(settings);
+    if (blocked) {
+      void this.record(automation, job, startedAt, "error", blocked, 0);
+      this.runNext(id);
+      return;
+    }
+
+    const file = job.filePath ? this.app.vault.getAbstractFileByPath(job.filePath) : null;
+    const promptText = renderPromptTemplate(prompt.body, {
+      filePath: job.filePath,
+      selection: "",
+      frontmatter:
+        file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter ?? null : null,
+    });
+    const runSettings = withoutAskPermissions(
+      applyPermissionOverrides(applyPromptOverrides(settings, prompt), automation.permissions)
+    );
+
+    const touched = new Set<string>();
+    const touch = (filePath: string) => {
+      touched.add(filePath);
+      this.selfChanges.set(filePath, Infinity);
+    };
+    if (job.filePath) touch(job.filePath);
+    let output = "";
+    let settled = false;
+    const settle = (status: "done" | "error", message: string, usage?: RunUsage) => {
+      if (settled || this.stopped) return;
+      settled = true;
+      if (status === "error") this.running.get(id)?.kill();
+      this.running.delete(id);
+      const until = Date.now() + SELF_CHANGE_GRACE_MS;
+      for (const p of touched) this.selfChanges.set(p, until);
+      if (status === "error") new Notice(`Qlaude automation "${label}" failed: ${truncate(message, 120)}`);
+      // Both write data.json, so one after the other
+      void this.record(automation, job, startedAt, status, message, usage?.costUsd ?? 0).then(
+        () => usage && this.options.usageLedger.record("automation", usage)
+      );
+      this.runNext(id);
+    };
+
+    const runner = runClaude({
+      prompt: promptText,
+      vaultPath: this.options.vaultPath,
+      currentFilePath: job.filePath,
+      settings: runSettings,
+      quickAction: true,
+      permissionBridge: this.options.permissionBridge,
+      transcripts: this.options.transcripts,
+      callbacks: {
+        onText: (text) => {
+          output += text;
+        },
+        onToolUse: (event) => {
+          output = "";
+          const filePath = event.input.file_path;
+          if ((event.name === "Edit" || event.name === "Write") && typeof filePath === "string") {
+            touch(this.toVaultPath(filePath));
+          }
+        },
+        onToolResult: () => {},
+        onSystemInit: () => {},
+        onRetry: () => {
+          output = "";
+        },
+        onDone: (usage) => settle("done", output, usage),
+        onError: (error) => settle("error", error.message, error.usage),
+      },
+    });
+    if (!settled) this.running.set(id, runner);
+  }
+
+  private toVaultPath(filePath: string): string {
+    const absolute = resolveToolPath(this.options.vaultPath, filePath);
+    return path.relative(this.options.vaultPath, absolute).split(path.sep).join("/");
+  }
+
+  private async record(
+    automation: Automation,
+    job: AutomationJob,
+    startedAt: number,
+    status: AutomationRunRecord["status"],
+    output: string,
+    costUsd: number
+  ): Promise<void> {
+    const text = output.trim();
+    await this.options.history.add(automation.id, {
+      trigger: job.trigger,
+      filePath: job.filePath,
+      startedAt,
+      finishedAt: Date.now(),
+      status,
+      output: text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}…` : text,
+      costUsd,
+    });
+  }
+}
@@ -0,0 +1,215 @@
+import { App, Modal, Notice, Setting, TFile, debounce } from "obsidian";
+import {
+  BatchRun,
+  BatchTarget,
+  BatchTargetKind,
+  batchStatusLabel,
+  describeBatchTarget,
+  resolveBatchFiles,
+} from "./batch";
+import { ConfirmModal } from "./dialogs";
+import type { SavedPrompt } from "./saved-prompts";
+
+const TARGET_PLACEHOLDERS: Record<BatchTargetKind, string> = {
+  folder: "Meetings/2024",
+  tag: "#inbox",
+  search: "action items",
+};
+
+export interface BatchRequest {
+  prompt: string;
+  files: TFile[];
+  target: BatchTarget;
+  // Supplies model and permission overrides when one was picked
+  savedPrompt: SavedPrompt | null;
+}
+
+export interface BatchModalOptions {
+  savedPrompts: SavedPrompt[];
+  target?: BatchTarget;
+  // Starts the batch; `report` resolves with the summary note once it is written
+  startBatch: (request: BatchRequest) => { batch: BatchRun; report: Promise<TFile | null> };
+}
+
+/**
+ * Picks the notes and prompt for a batch, then shows per-note progress.
+ * Closing it leaves the batch running; the report note is written either way.
+ */
+export class BatchModal extends Modal {
+  private target: BatchTarget;
+  private prompt = "";
+  private savedPrompt: SavedPrompt | null = null;
+  private matchesEl!: HTMLElement;
+  private formEl!: HTMLElement;
+  private progressEl!: HTMLElement;
+  private batch: BatchRun | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(app: App, private options: BatchModalOptions) {
+    super(app);
+    this.target = options.target ?? { kind: "folder", value: "" };
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Run quick action on multiple notes");
+    this.modalEl.addClass("qlaude-batch-modal");
+    this.formEl = this.contentEl.createDiv("qlaude-batch-form");
+
+    const targetSetting = new Setting(this.formEl)
+      .setName("Notes")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ folder: "In folder", tag: "With tag", search: "Matching search" })
+          .setValue(this.target.kind)
+          .onChange((value) => {
+            this.target = { ...this.target, kind: value as BatchTargetKind };
+            valueInput.setAttribute("placeholder", TARGET_PLACEHOLDERS[this.target.kind]);
+            this.updateMatches();
+          })
+      );
+    let valueInput!: HTMLInputElement;
+    targetSetting.addText((text) => {
+      valueInput = text.inputEl;
+      text
+        .setPlaceholder(TARGET_PLACEHOLDERS[this.target.kind])
+        .setValue(this.target.value)
+        .onChange((value) => {
+          this.target = { ...this.target, value };
+          this.updateMatches();
+        });
+    });
+    this.matchesEl = targetSetting.descEl;
+
+    const savedPrompts = this.options.savedPrompts.filter((p) => p.body.trim());
+    let promptArea!: HTMLTextAreaElement;
+    if (savedPrompts.length > 0) {
+      new Setting(this.formEl).setName("Saved prompt").addDropdown((dropdown) => {
+        dropdown.addOption("", "None");
+        for (const prompt of savedPrompts) dropdown.addOption(prompt.id, prompt.name || "Untitled");
+        dropdown.onChange((id) => {
+          this.savedPrompt = savedPrompts.find((p) => p.id === id) ?? null;
+          if (this.savedPrompt) {
+            this.prompt = this.savedPrompt.body;
+            promptArea.value = this.prompt;
+          }
+        });
+      });
+    }
+
+    new Setting(this.formEl)
+      .setClass("qlaude-batch-prompt")
+      .setName("Prompt")
+      .setDesc("Runs once per note, with that note as the active file.")
+      .addTextArea((text) => {
+        promptArea = text.inputEl;
+        text.setPlaceholder("Tidy up this meeting note and list the action items at the top")
+          .onChange((value) => {
+            this.prompt = value;
+          });
+        text.inputEl.rows = 4;
+      });
+
+    new Setting(this.formEl).addButton((button) =>
+      button
+        .setButtonText("Run")
+        .setCta()
+        .onClick(() => void this.handleRun())
+    );
+
+    this.progressEl = this.contentEl.createDiv("qlaude-batch-progress");
+    this.updateMatches();
+  }
+
+  onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.contentEl.empty();
+  }
+
+  private updateMatches = debounce(
+    () => {
+      const target = this.target;
+      void resolveBatchFiles(this.app, target).then((files) => {
+        if (target !== this.target) return;
+        this.matchesEl.setText(
+          `${files.length} note${files.length === 1 ? "" : "s"} match${files.length === 1 ? "es" : ""}.`
+        );
+      });
+    },
+    300,
+    true
+  );
+
+  private async handleRun(): Promise<void> {
+    if (this.batch) return;
+    const prompt = this.prompt.trim();
+    if (!prompt) {
+      new Notice("Enter a prompt to run.");
+      return;
+    }
+    const target = this.target;
+    const files = await resolveBatchFiles(this.app, target);
+    if (files.length === 0) {
+      new Notice(`No notes match ${describeBatchTarget(target)}.`);
+      return;
+    }
+
+    const confirmed = await new ConfirmModal(
+      this.app,
+      "Run on multiple notes",
+      `Run this prompt on ${files.length} note${files.length === 1 ? "" : "s"} (${describeBatchTarget(target)})? ` +
+        "Each note gets its own Claude run with your current permissions; Ask permissions are treated as Off.",
+      "Run"
+    ).openAndWait();
+    if (!confirmed || this.batch) return;
+
+    const { batch, report } = this.options.startBatch({
+      prompt,
+      files,
+      target,
+      savedPrompt: this.savedPrompt,
+    });
+    this.batch = batch;
+    this.formEl.hide();
+    this.renderProgress();
+    this.unsubscribe = batch.onChange(() => this.renderProgress());
+
+    const file = await report;
+    if (file && this.batch === batch) this.showReportLink(file);
+  }
+
+  private renderProgress(): void {
+    const batch = this.batch;
+    if (!batch) return;
+    this.progressEl.empty();
+
+    const finished = batch.items.length - batch.count("pending") - batch.count("running");
+    const headerEl = this.progressEl.createDiv("qlaude-batch-progress__header");
+    headerEl.createSpan({
+      text: batch.isRunning
+        ? `${finished} of ${batch.items.length} notes finished`
+        : `Finished: ${batch.count("done")} done, ${batch.count("error")} failed, ${batch.count("cancelled")} cancelled`,
+    });
+    if (batch.isRunning) {
+      const cancelBtn = headerEl.createEl("button", { text: "Cancel", cls: "mod-warning" });
+      cancelBtn.addEventListener("click", () => batch.cancel());
+    }
+
+    const listEl = this.progressEl.createDiv("qlaude-batch-list");
+    for (const item of batch.items) {
+      const rowEl = listEl.createDiv(`qlaude-batch-item qlaude-batch-item--${item.status}`);
+      rowEl.createSpan({ text: item.path, cls: "qlaude-batch-item__path" });
+      rowEl.createSpan({ text: batchStatusLabel(item.status), cls: "qlaude-batch-item__status" });
+      if (item.status === "error" && item.result) rowEl.setAttr("title", item.result);
+    }
+  }
+
+  private showReportLink(file: TFile): void {
+    new Setting(this.contentEl).setName(`Report saved to ${file.path}`).addButton((button) =>
+      button.setButtonText("Open report").onClick(() => {
+        this.close();
+        void this.app.workspace.getLeaf(true).openFile(file);
+      })
+    );
+  }
+}
@@ -0,0 +1,322 @@
+import { App, TFile, getAllTags, moment, normalizePath } from "obsidian";
+import { ClaudeRunner, RunClaudeOptions, runClaude } from "./claude-runner";
+import type { PermissionBridge } from "./permission-bridge";
+import { createUniqueNote } from "./note-export";
+import { withoutAskPermissions } from "./permissions";
+import type { ClaudianSettings } from "./settings";
+import type { TranscriptStore } from "./transcripts";
+import type { UsageLedger } from "./usage-ledger";
+
+export type BatchTargetKind = "folder" | "tag" | "search";
+
+export interface BatchTarget {
+  kind: BatchTargetKind;
+  // Folder path, tag (with or without "#") or search terms
+  value: string;
+}
+
+export type BatchItemStatus = "pending" | "running" | "done" | "error" | "cancelled";
+
+export interface BatchItem {
+  path: string;
+  status: BatchItemStatus;
+  // Claude's final answer, or the error message
+  result: string;
+  costUsd: number;
+  // Vault files the run edited or wrote
+  changedPaths: string[];
+}
+
+export function describeBatchTarget(target: BatchTarget): string {
+  switch (target.kind) {
+    case "folder":
+      return `folder "${target.value || "/"}"`;
+    case "tag":
+      return `tag #${normalizeTag(target.value)}`;
+    case "search":
+      return `search "${target.value}"`;
+  }
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+/** Whether `file` has `tag` or one nested under it, in its text or frontmatter. */
+export function hasTag(app: App, file: TFile, tag: string): boolean {
+  const wanted = normalizeTag(tag);
+  const cache = app.metadataCache.getFileCache(file);
+  const tags = cache ? getAllTags(cache) ?? [] : [];
+  return tags.some((t) => {
+    const name = normalizeTag(t);
+    return name === wanted || name.startsWith(wanted + "/");
+  });
+}
+
+export function isInFolder(filePath: string, folder: string): boolean {
+  const normalized = normalizePath(folder.trim());
+  return normalized === "/" || normalized === "" || filePath.startsWith(normalized + "/");
+}
+
+/**
+ * Markdown notes matched by a batch target, sorted by path. A search matches
+ * notes whose path or text contains every whitespace-separated term,
+ * ignoring case.
+ */
+export async function resolveBatchFiles(app: App, target: BatchTarget): Promise<TFile[]> {
+  const files = app.vault.getMarkdownFiles().sort((a, b) => a.path.localeCompare(b.path));
+
+  switch (target.kind) {
+    case "folder":
+      return files.filter((f) => isInFolder(f.path, target.value));
+    case "tag":
+      if (!normalizeTag(target.value)) return [];
+      return files.filter((f) => hasTag(app, f, target.value));
+    case "search": {
+      const terms = target.value.toLowerCase().split(/\s+/).filter(Boolean);
+      if (terms.length === 0) return [];
+      const matches: TFile[] = [];
+      for (const file of files) {
+        const text = `${file.path}\n${await app.vault.cachedRead(file)}`.toLowerCase();
+        if (terms.every((t) => text.includes(t))) matches.push(file);
+      }
+      return matches;
+    }
+  }
+}
+
+export interface BatchOptions {
+  prompt: string;
+  // Fills in template variables for one note; the prompt is used as is without it
+  renderPrompt?: (path: string) => string;
+  paths: string[];
+  target: BatchTarget;
+  vaultPath: string;
+  settings: ClaudianSettings;
+  permissionBridge?: PermissionBridge;
+  transcripts?: TranscriptStore;
+  // How many CLI processes may run at once
+  concurrency: number;
+  // Records each run's usage and is checked against the budgets before each note
+  usageLedger?: UsageLedger;
+}
+
+/**
+ * Applies one quick action to many notes, each note as the active file of its
+ * own run. Nobody is watching every run, so "ask" permissions are refused
+ * rather than prompted.
+ */
+export class BatchRun {
+  readonly prompt: string;
+  readonly target: BatchTarget;
+  readonly items: BatchItem[];
+  readonly startedAt = Date.now();
+  finishedAt: number | null = null;
+
+  private runners: Map<BatchItem, ClaudeRunner> = new Map();
+  private cancelled = false;
+  private listeners: Set<() => void> = new Set();
+  private resolveDone!: () => void;
+  readonly done: Promise<void>;
+
+  constructor(private options: BatchOptions) {
+    this.prompt = options.prompt;
+    this.target = options.target;
+    this.items = options.paths.map((path) => ({
+      path,
+      status: "pending",
+      result: "",
+      costUsd: 0,
+      changedPaths: [],
+    }));
+    this.done = new Promise((resolve) => {
+      this.resolveDone = resolve;
+    });
+  }
+
+  get isRunning(): boolean {
+    return this.finishedAt === null;
+  }
+
+  get costUsd(): number {
+    return this.items.reduce((sum, item) => sum + item.costUsd, 0);
+  }
+
+  count(status: BatchItemStatus): number {
+    return this.items.filter((i) => i.status === status).length;
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  start(): void {
+    const slots = Math.max(1, Math.floor(this.options.concurrency));
+    for (let i = 0; i < slots; i++) this.next();
+    this.checkFinished();
+  }
+
+  /** Stops the running notes and skips the ones not started yet. */
+  cancel(): void {
+    if (!this.isRunning) return;
+    this.cancelled = true;
+    for (const [item, runner] of this.runners) {
+      runner.kill();
+      item.status = "cancelled";
+    }
+    this.runners.clear();
+    for (const item of this.items) {
+      if (item.status === "pending") item.status = "cancelled";
+    }
+    this.checkFinished();
+  }
+
+  private next(): void {
+    if (this.cancelled) return;
+    const item = this.items.find((i) => i.status === "pending");
+    if (!item) return;
+
+    const blocked = this.options.usageLedger?.blockedByBudget(this.options.settings);
+    if (blocked) {
+      item.status = "error";
+      item.result = blocked;
+      this.next();
+      return;
+    }
+
+    item.status = "running";
+    this.notify();
+
+    let settled = false;
+    // The first of onDone/onError decides the outcome; the slot then moves on
+    const settle = (status: BatchItemStatus) => {
+      if (settled || item.status !== "running") return;
+      settled = true;
+      item.status = status;
+      // The process may still be running after an error result
+      if (status === "error") this.runners.get(item)?.kill();
+      this.runners.delete(item);
+      this.next();
+      this.checkFinished();
+    };
+
+    const options: RunClaudeOptions = {
+      prompt: this.options.renderPrompt?.(item.path) ?? this.options.prompt,
+      vaultPath: this.options.vaultPath,
+      currentFilePath: item.path,
+      settings: withoutAskPermissions(this.options.settings),
+      quickAction: true,
+      permissionBridge: this.options.permissionBridge,
+      transcripts: this.options.transcripts,
+      callbacks: {
+        onText: (text) => {
+          item.result += text;
+        },
+        onToolUse: (event) => {
+          // Keep only the text after the last tool call, i.e. the final answer
+          item.result = "";
+          const filePath = event.input.file_path;
+          if ((event.name === "Edit" || event.name === "Write") && typeof filePath === "string") {
+            if (!item.changedPaths.includes(filePath)) item.changedPaths.push(filePath);
+          }
+        },
+        onToolResult: () => {},
+        onSystemInit: () => {},
+        onRetry: () => {
+          item.result = "";
+        },
+        onDone: (usage) => {
+          item.costUsd = usage.costUsd;
+          void this.options.usageLedger?.record("batch", usage);
+          settle("done");
+        },
+        onError: (error) => {
+          item.result = error.message;
+          if (error.usage) {
+            item.costUsd = error.usage.costUsd;
+            void this.options.usageLedger?.record("batch", error.usage);
+          }
+          settle("error");
+        },
+      },
+    };
+
+    const runner = runClaude(options);
+    if (item.status === "running" && !settled) this.runners.set(item, runner);
+  }
+
+  private checkFinished(): void {
+    const finished = this.items.every((i) => i.status !== "pending" && i.status !== "running");
+    if (finished && this.finishedAt === null) {
+      this.finishedAt = Date.now();
+      this.resolveDone();
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener();
+  }
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: "Pending",
+  running: "Running",
+  done: "Done",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+export function batchStatusLabel(status: BatchItemStatus): string {
+  return STATUS_LABELS[status];
+}
+
+/** Markdown for the summary note written when a batch ends. */
+export function buildBatchReport(batch: BatchRun): string {
+  const lines: string[] = [];
+  const finishedAt = batch.finishedAt ?? Date.now();
+  const seconds = Math.round((finishedAt - batch.startedAt) / 1000);
+
+  lines.push(`# Qlaude batch: ${describeBatchTarget(batch.target)}`);
+  lines.push("");
+  lines.push(`- Started: ${moment(batch.startedAt).format("YYYY-MM-DD HH:mm")}`);
+  lines.push(`- Duration: ${seconds}s`);
+  lines.push(
+    `- Notes: ${batch.items.length} (${batch.count("done")} done, ` +
+    `${batch.count("error")} failed, ${batch.count("cancelled")} cancelled)`
+  );
+  lines.push(`- Cost: $${batch.costUsd.toFixed(4)}`);
+  lines.push("");
+  lines.push("## Prompt");
+  lines.push("");
+  lines.push(...batch.prompt.split("\n").map((line) => `> ${line}`));
+  lines.push("");
+  lines.push("## Results");
+
+  for (const item of batch.items) {
+    lines.push("");
+    lines.push(`### [[${item.path.replace(/\.md$/, "")}]] — ${STATUS_LABELS[item.status]}`);
+    if (item.changedPaths.length > 0) {
+      lines.push("");
+      lines.push(`Changed: ${item.changedPaths.join(", ")}`);
+    }
+    const result = item.result.trim();
+    if (result) {
+      lines.push("");
+      lines.push(result);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/** Creates the report note in `folder`, returning it. */
+export async function writeBatchReport(
+  app: App,
+  batch: BatchRun,
+  folder: string
+): Promise<TFile> {
+  const base = `Qlaude batch ${moment(batch.startedAt).format("YYYY-MM-DD HHmmss")}`;
+  return createUniqueNote(app, folder, base, buildBatchReport(batch));
+}
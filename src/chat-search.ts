@@ -0,0 +1,50 @@
+import { App, SuggestModal, moment } from "obsidian";
+import type { ChatSearchHit, ChatStorage } from "./chat-storage";
+
+// Characters of context shown on each side of the first match
+const SNIPPET_CONTEXT = 60;
+
+/** The text around the first of `terms` found in `text`, on one line. */
+export function searchSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lower = flat.toLowerCase();
+  const at = Math.min(...terms.map((term) => lower.indexOf(term)).filter((i) => i !== -1));
+  if (!Number.isFinite(at)) return flat.slice(0, SNIPPET_CONTEXT * 2);
+  const start = Math.max(0, at - SNIPPET_CONTEXT);
+  const end = Math.min(flat.length, at + SNIPPET_CONTEXT);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+/** Searches every saved conversation and hands back the chosen turn. */
+export class ChatSearchModal extends SuggestModal<ChatSearchHit> {
+  constructor(
+    app: App,
+    private storage: ChatStorage,
+    private onChoose: (hit: ChatSearchHit) => void
+  ) {
+    super(app);
+    this.setPlaceholder("Search past chats");
+    this.emptyStateText = "No matching messages.";
+  }
+
+  async getSuggestions(query: string): Promise<ChatSearchHit[]> {
+    if (query.trim().length < 2) return [];
+    return this.storage.search(query);
+  }
+
+  renderSuggestion(hit: ChatSearchHit, el: HTMLElement): void {
+    const terms = this.inputEl.value.toLowerCase().split(/\s+/).filter(Boolean);
+    const date = hit.turn.finishedAt ?? hit.conversation.updatedAt;
+    el.createDiv({
+      text: `${hit.conversation.name} · ${moment(date).format("YYYY-MM-DD HH:mm")}`,
+      cls: "qlaude-chat-search__title",
+    });
+    el.createDiv({ text: `You: ${searchSnippet(hit.turn.userText, terms)}`, cls: "qlaude-chat-search__snippet" });
+    const reply = searchSnippet(hit.turn.claudeMarkdown, terms);
+    if (reply) el.createDiv({ text: `Claude: ${reply}`, cls: "qlaude-chat-search__snippet" });
+  }
+
+  onChooseSuggestion(hit: ChatSearchHit): void {
+    this.onChoose(hit);
+  }
+}
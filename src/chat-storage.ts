@@ -0,0 +1,390 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { DataStore } from "./data-store";
+
+// A thinking section or tool call in a reply, shown after the first `offset`
+// characters of the turn's claudeMarkdown
+export type ChatTurnStep =
+  | { type: "thinking"; offset: number; text: string }
+  | {
+      type: "tool";
+      offset: number;
+      name: string;
+      input: Record<string, unknown>;
+      // The preview of a long result, as the card shows it; missing if none arrived
+      result?: string;
+      isError?: boolean;
+      durationMs?: number | null;
+    };
+
+export interface ChatTurnData {
+  userText: string;
+  claudeMarkdown: string;
+  // Added with note export; turns saved by earlier versions lack them
+  finishedAt?: number;
+  model?: string;
+  costUsd?: number;
+  // Vault-relative paths of the files the turn changed
+  changedPaths?: string[];
+  // Position in the conversation tree; turns from before branching get theirs on load
+  id?: string;
+  parentId?: string | null;
+  // CLI session the reply belongs to, and its last assistant message, where a
+  // branch from the next turn resumes
+  sessionId?: string | null;
+  messageUuid?: string | null;
+  // Added with saved tool cards; turns saved by earlier versions show text only
+  steps?: ChatTurnStep[];
+}
+
+export interface Conversation {
+  id: string;
+  name: string;
+  // CLI session used with --resume; null until the first reply
+  sessionId: string | null;
+  // The branch being shown, oldest turn first
+  turns: ChatTurnData[];
+  // Turns on every other branch of the conversation tree
+  otherTurns?: ChatTurnData[];
+  createdAt: number;
+  updatedAt: number;
+  archived: boolean;
+}
+
+export type ConversationChanges = Partial<
+  Pick<Conversation, "name" | "sessionId" | "turns" | "otherTurns" | "archived">
+>;
+
+// A conversation as listed in the index, without its turns
+export interface ConversationSummary extends Omit<Conversation, "turns" | "otherTurns"> {
+  turnCount: number;
+  // Bytes the conversation's file takes up, counted against the history limit
+  size: number;
+}
+
+export interface ChatSearchHit {
+  conversation: ConversationSummary;
+  // Position of the turn in its branch
+  turnIndex: number;
+  turn: ChatTurnData;
+  // The turn is on a branch other than the one shown
+  otherBranch: boolean;
+}
+
+export interface ChatStorage {
+  list: () => Promise<ConversationSummary[]>;
+  // Null when the conversation was deleted or its file can't be read
+  get: (id: string) => Promise<Conversation | null>;
+  // The conversation shown when the chat tab opens; created on demand
+  getActive: () => Promise<Conversation>;
+  setActive: (id: string) => Promise<void>;
+  create: (name?: string) => Promise<Conversation>;
+  // `changes` may be worked out from the conversation as saved, read in turn with other saves
+  update: (
+    id: string,
+    changes: ConversationChanges | ((saved: Conversation) => ConversationChanges)
+  ) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  // Turns on any branch containing every word of the query, most recent conversations first
+  search: (query: string, limit?: number) => Promise<ChatSearchHit[]>;
+  // Called with a conversation's ID after it is saved, so every panel showing it can catch up
+  onChange: (listener: (id: string) => void) => () => void;
+}
+
+// Where earlier versions kept chat history in data.json
+export interface ChatData {
+  _chats?: { activeId: string | null; conversations: Conversation[] };
+  // Single conversation stored by versions before that
+  _chat?: { sessionId: string | null; turns: ChatTurnData[] };
+}
+
+export function newConversation(name: string): Conversation {
+  const now = Date.now();
+  return {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    sessionId: null,
+    turns: [],
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+  };
+}
+
+export function defaultConversationName(date = new Date()): string {
+  return `Chat ${date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`;
+}
+
+const INDEX_FILE = "index.json";
+const SEARCH_LIMIT = 50;
+
+interface ChatIndex {
+  activeId: string | null;
+  conversations: ConversationSummary[];
+}
+
+// A conversation's turns as searched, most recent first, kept in memory once read
+interface SearchEntry {
+  updatedAt: number;
+  turns: Array<{ text: string; hit: Omit<ChatSearchHit, "conversation"> }>;
+}
+
+function searchEntryOf(conversation: Conversation): SearchEntry {
+  const other = conversation.otherTurns ?? [];
+  const byId = new Map([...conversation.turns, ...other].map((t) => [t.id, t]));
+  // Other branches don't store their position, so count the turns above each
+  const depthOf = (turn: ChatTurnData) => {
+    let depth = 0;
+    for (let t = turn; t.parentId && byId.has(t.parentId); t = byId.get(t.parentId) as ChatTurnData) depth++;
+    return depth;
+  };
+  const hits = [
+    ...conversation.turns.map((turn, turnIndex) => ({ turnIndex, turn, otherBranch: false })).reverse(),
+    ...[...other]
+      .sort((a, b) => (b.finishedAt ?? 0) - (a.finishedAt ?? 0))
+      .map((turn) => ({ turnIndex: depthOf(turn), turn, otherBranch: true })),
+  ];
+  return {
+    updatedAt: conversation.updatedAt,
+    turns: hits.map((hit) => ({
+      text: `${hit.turn.userText}\n${hit.turn.claudeMarkdown}`.toLowerCase(),
+      hit,
+    })),
+  };
+}
+
+export interface FileChatStorageOptions {
+  // Folder holding the index and one file per conversation
+  getFolder: () => string | null;
+  // Total size conversations may take up, in bytes; 0 means no limit
+  getLimitBytes: () => number;
+  // data.json, read once to move history saved by earlier versions
+  legacy: DataStore<ChatData>;
+}
+
+/**
+ * ChatStorage keeping each conversation in its own JSON file, with an index
+ * of names and sizes so listing doesn't read every turn. The index stays in
+ * memory once loaded; operations run one at a time so overlapping saves from
+ * the modal and the sidebar can't interleave. When the files outgrow the
+ * limit, the least recently used conversations are deleted, archived ones
+ * first and the active one never. Search reads each file once and then keeps
+ * its text in memory, so typing a query doesn't hold up saving.
+ */
+export function createFileChatStorage(options: FileChatStorageOptions): ChatStorage {
+  let index: ChatIndex | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  const searchEntries = new Map<string, SearchEntry>();
+  const listeners = new Set<(id: string) => void>();
+
+  const folder = (): string => {
+    const dir = options.getFolder();
+    if (!dir) throw new Error("Chat history needs a vault on the local file system.");
+    return dir;
+  };
+  const fileOf = (id: string) => path.join(folder(), `${id}.json`);
+
+  const serial = <T>(operation: (index: ChatIndex) => Promise<T>): Promise<T> => {
+    const result = queue.then(async () => operation(await loadIndex()));
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  // Written beside the target and renamed, so a crash never leaves half a file
+  const writeAtomic = async (file: string, content: string) => {
+    await fs.promises.writeFile(`${file}.tmp`, content, "utf8");
+    await fs.promises.rename(`${file}.tmp`, file);
+  };
+
+  const writeIndex = (chats: ChatIndex) =>
+    writeAtomic(path.join(folder(), INDEX_FILE), JSON.stringify(chats));
+
+  const readConversation = async (id: string): Promise<Conversation | null> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(fileOf(id), "utf8")) as Conversation;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Claudian: Could not read conversation ${id}`, err);
+      }
+      return null;
+    }
+  };
+
+  // Saves the conversation and brings its index entry up to date; the caller writes the index
+  const writeConversation = async (chats: ChatIndex, conversation: Conversation) => {
+    const content = JSON.stringify(conversation);
+    await writeAtomic(fileOf(conversation.id), content);
+    searchEntries.set(conversation.id, searchEntryOf(conversation));
+    const summary: ConversationSummary = {
+      id: conversation.id,
+      name: conversation.name,
+      sessionId: conversation.sessionId,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      archived: conversation.archived,
+      turnCount: conversation.turns.length,
+      size: Buffer.byteLength(content),
+    };
+    const existing = chats.conversations.findIndex((c) => c.id === conversation.id);
+    if (existing === -1) chats.conversations.push(summary);
+    else chats.conversations[existing] = summary;
+  };
+
+  // Used when the index is missing or unreadable; the active conversation is forgotten
+  const rebuildIndex = async (): Promise<ChatIndex> => {
+    const chats: ChatIndex = { activeId: null, conversations: [] };
+    const names = await fs.promises.readdir(folder());
+    for (const name of names.filter((n) => n.endsWith(".json") && n !== INDEX_FILE)) {
+      const conversation = await readConversation(path.basename(name, ".json"));
+      if (conversation?.id) await writeConversation(chats, conversation);
+    }
+    return chats;
+  };
+
+  const migrateLegacy = async (chats: ChatIndex) => {
+    const data = await options.legacy.load();
+    if (!data._chats && !data._chat) return;
+
+    const conversations = data._chats?.conversations ?? [];
+    let activeId = data._chats?.activeId ?? null;
+    if (!data._chats && data._chat && data._chat.turns.length > 0) {
+      const migrated = newConversation("Chat");
+      migrated.sessionId = data._chat.sessionId;
+      migrated.turns = data._chat.turns;
+      conversations.push(migrated);
+      activeId = migrated.id;
+    }
+    for (const conversation of conversations) {
+      if (!chats.conversations.some((c) => c.id === conversation.id)) {
+        await writeConversation(chats, conversation);
+      }
+    }
+    chats.activeId ??= activeId;
+    await writeIndex(chats);
+
+    // Only once every conversation is safely in its own file
+    await options.legacy.modify((stored) => {
+      delete stored._chats;
+      delete stored._chat;
+    });
+  };
+
+  const loadIndex = async (): Promise<ChatIndex> => {
+    if (index) return index;
+    await fs.promises.mkdir(folder(), { recursive: true });
+    let chats: ChatIndex;
+    try {
+      chats = JSON.parse(await fs.promises.readFile(path.join(folder(), INDEX_FILE), "utf8")) as ChatIndex;
+    } catch {
+      chats = await rebuildIndex();
+      await writeIndex(chats);
+    }
+    await migrateLegacy(chats);
+    index = chats;
+    return chats;
+  };
+
+  // Deletes conversations until the rest fit the limit; `keepId` was just saved
+  const prune = async (chats: ChatIndex, keepId: string) => {
+    const limit = options.getLimitBytes();
+    if (limit <= 0) return;
+    let total = chats.conversations.reduce((sum, c) => sum + c.size, 0);
+    const candidates = chats.conversations
+      .filter((c) => c.id !== chats.activeId && c.id !== keepId)
+      .sort((a, b) => Number(b.archived) - Number(a.archived) || a.updatedAt - b.updatedAt);
+    for (const conversation of candidates) {
+      if (total <= limit) break;
+      await fs.promises.rm(fileOf(conversation.id), { force: true });
+      searchEntries.delete(conversation.id);
+      chats.conversations = chats.conversations.filter((c) => c.id !== conversation.id);
+      total -= conversation.size;
+    }
+  };
+
+  const createIn = async (chats: ChatIndex, name?: string) => {
+    const conversation = newConversation(name?.trim() || defaultConversationName());
+    await writeConversation(chats, conversation);
+    chats.activeId = conversation.id;
+    await writeIndex(chats);
+    return conversation;
+  };
+
+  return {
+    list: () => serial(async (chats) => chats.conversations.map((c) => ({ ...c }))),
+
+    get: (id) => serial(() => readConversation(id)),
+
+    getActive: () =>
+      serial(async (chats) => {
+        const active = chats.conversations.find((c) => c.id === chats.activeId && !c.archived);
+        const conversation = active ? await readConversation(active.id) : null;
+        return conversation ?? createIn(chats);
+      }),
+
+    setActive: (id) =>
+      serial(async (chats) => {
+        chats.activeId = id;
+        await writeIndex(chats);
+      }),
+
+    create: (name) => serial((chats) => createIn(chats, name)),
+
+    update: (id, changes) =>
+      serial(async (chats) => {
+        const conversation = await readConversation(id);
+        if (!conversation) return;
+        const next = typeof changes === "function" ? changes(conversation) : changes;
+        Object.assign(conversation, next, { updatedAt: Date.now() });
+        await writeConversation(chats, conversation);
+        await prune(chats, id);
+        await writeIndex(chats);
+        for (const listener of listeners) listener(id);
+      }),
+
+    delete: (id) =>
+      serial(async (chats) => {
+        await fs.promises.rm(fileOf(id), { force: true });
+        searchEntries.delete(id);
+        chats.conversations = chats.conversations.filter((c) => c.id !== id);
+        if (chats.activeId === id) chats.activeId = null;
+        await writeIndex(chats);
+      }),
+
+    search: async (query, limit = SEARCH_LIMIT) => {
+      const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const hits: ChatSearchHit[] = [];
+      if (terms.length === 0) return hits;
+      // Only the index is read in turn with saves; the files are read outside the queue
+      const summaries = await serial(async (chats) => chats.conversations.map((c) => ({ ...c })));
+      // Reversed first so conversations saved in the same millisecond list newest first too
+      const byRecent = summaries.reverse().sort((a, b) => b.updatedAt - a.updatedAt);
+      for (const summary of byRecent) {
+        let entry = searchEntries.get(summary.id);
+        if (!entry || entry.updatedAt < summary.updatedAt) {
+          const conversation = await readConversation(summary.id);
+          if (!conversation) continue;
+          entry = searchEntryOf(conversation);
+          // A save made while the file was read has already put newer text in place
+          const current = searchEntries.get(summary.id);
+          if (!current || current.updatedAt <= entry.updatedAt) searchEntries.set(summary.id, entry);
+        }
+        for (const { text, hit } of entry.turns) {
+          if (!terms.every((term) => text.includes(term))) continue;
+          hits.push({ conversation: summary, ...hit });
+          if (hits.length >= limit) return hits;
+        }
+      }
+      return hits;
+    },
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import type { ChatTurnData } from "./chat-storage";
+
+/**
+ * A conversation is a tree of turns: editing a message or regenerating a
+ * reply starts a new branch next to the old one. The branch being shown is
+ * stored in order as `turns`; every other turn is kept in `otherTurns`, each
+ * pointing at the turn before it with parentId.
+ */
+export interface ChatBranch {
+  turns: ChatTurnData[];
+  otherTurns: ChatTurnData[];
+}
+
+// Where a session for a new branch starts: the turn before it, or a fresh session for the first turn
+export interface ForkPoint {
+  sessionId: string;
+  messageUuid: string;
+}
+
+export function newTurnId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Gives turns saved before branching an ID, a link to the turn before and the
+ * conversation's session; turns that have them are left as they are.
+ */
+export function withTurnIds(turns: ChatTurnData[], sessionId: string | null): ChatTurnData[] {
+  let parentId: string | null = null;
+  return turns.map((turn) => {
+    const linked: ChatTurnData = {
+      ...turn,
+      id: turn.id ?? newTurnId(),
+      parentId: turn.parentId !== undefined ? turn.parentId : parentId,
+      sessionId: turn.sessionId !== undefined ? turn.sessionId : sessionId,
+    };
+    parentId = linked.id ?? null;
+    return linked;
+  });
+}
+
+// Oldest first; turns from before branching have no time and sort first
+function byAge(a: ChatTurnData, b: ChatTurnData): number {
+  return (a.finishedAt ?? 0) - (b.finishedAt ?? 0);
+}
+
+/** The turns that answer the same point as turns[index], oldest first, including it. */
+export function alternativesAt(branch: ChatBranch, index: number): ChatTurnData[] {
+  const turn = branch.turns[index];
+  if (!turn) return [];
+  const parentId = turn.parentId ?? null;
+  return [...branch.turns, ...branch.otherTurns]
+    .filter((t) => (t.parentId ?? null) === parentId)
+    .sort(byAge);
+}
+
+/**
+ * Shows the branch through `turnId`, an alternative to turns[index]; after it
+ * the branch follows the most recent reply at each step.
+ */
+export function switchBranch(branch: ChatBranch, index: number, turnId: string): ChatBranch {
+  const all = [...branch.turns, ...branch.otherTurns];
+  const turns = branch.turns.slice(0, index);
+  let next = all.find((t) => t.id === turnId);
+  while (next) {
+    turns.push(next);
+    const parentId = next.id;
+    next = all.filter((t) => t.parentId === parentId).sort(byAge).pop();
+  }
+  return { turns, otherTurns: all.filter((t) => !turns.includes(t)) };
+}
+
+/**
+ * Shows the branch through `turnId` wherever it is in the tree, e.g. a search
+ * hit on another branch; after it the branch follows the most recent reply.
+ */
+export function branchThrough(branch: ChatBranch, turnId: string): ChatBranch {
+  const all = [...branch.turns, ...branch.otherTurns];
+  const above: ChatTurnData[] = [];
+  let turn = all.find((t) => t.id === turnId);
+  while (turn?.parentId) {
+    const parentId = turn.parentId;
+    turn = all.find((t) => t.id === parentId);
+    if (turn) above.unshift(turn);
+  }
+  const otherTurns = all.filter((t) => !above.includes(t));
+  return switchBranch({ turns: above, otherTurns }, above.length, turnId);
+}
+
+/**
+ * The shown branch to save over `saved`. Turns another panel added to the
+ * conversation since this one loaded it are kept, as branches of their own.
+ */
+export function mergeBranches(saved: ChatBranch, shown: ChatBranch): ChatBranch {
+  const known = new Set([...shown.turns, ...shown.otherTurns].map((t) => t.id));
+  const added = [...saved.turns, ...saved.otherTurns].filter((t) => t.id && !known.has(t.id));
+  return { turns: shown.turns, otherTurns: [...shown.otherTurns, ...added] };
+}
+
+/** Takes turns[index] and everything after it off the shown branch, to make room for a new turn. */
+export function forkAt(branch: ChatBranch, index: number): ChatBranch {
+  return {
+    turns: branch.turns.slice(0, index),
+    otherTurns: [...branch.otherTurns, ...branch.turns.slice(index)],
+  };
+}
+
+/**
+ * Where a new branch replacing turns[index] resumes: null to start a new
+ * session, undefined when the turn before it was saved before branching and
+ * its session can't be cut short there.
+ */
+export function forkPointAt(turns: ChatTurnData[], index: number): ForkPoint | null | undefined {
+  if (index === 0) return null;
+  const previous = turns[index - 1];
+  if (!previous?.sessionId || !previous.messageUuid) return undefined;
+  return { sessionId: previous.sessionId, messageUuid: previous.messageUuid };
+}
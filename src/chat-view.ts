@@ -0,0 +1,73 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import type ClaudianPlugin from "../main";
+import { ClaudePanel } from "./claude-panel";
+
+export const CHAT_VIEW_TYPE = "qlaude-chat";
+
+/**
+ * Chat mode docked in the workspace sidebar. Unlike the modal it stays open
+ * while you switch notes, so a running request keeps streaming; each new
+ * message is sent with the note that is active at that moment.
+ */
+export class ClaudianChatView extends ItemView {
+  private plugin: ClaudianPlugin;
+  private panel: ClaudePanel | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ClaudianPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return CHAT_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Qlaude chat";
+  }
+
+  getIcon(): string {
+    return "bot";
+  }
+
+  async onOpen(): Promise<void> {
+    this.contentEl.empty();
+    this.contentEl.addClass("qlaude-view");
+
+    const vaultPath = this.plugin.getVaultPath();
+    if (!vaultPath) {
+      this.contentEl.createDiv({
+        text: "Could not determine the vault path.",
+        cls: "qlaude-error-block",
+      });
+      return;
+    }
+
+    await this.plugin.startPermissionBridge();
+
+    this.panel = this.addChild(
+      new ClaudePanel(this.app, this.contentEl, {
+        settings: this.plugin.settings,
+        vaultPath,
+        storage: this.plugin.chatStorage,
+        permissionBridge: this.plugin.permissionBridge,
+        transcripts: this.plugin.transcripts,
+        runManager: this.plugin.runManager,
+        usageLedger: this.plugin.usageLedger,
+        getCurrentFilePath: () => this.app.workspace.getActiveFile()?.path ?? null,
+        chatOnly: true,
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("file-open", () => this.panel?.refreshActiveFile())
+    );
+  }
+
+  async onClose(): Promise<void> {
+    if (this.panel) {
+      this.removeChild(this.panel);
+      this.panel = null;
+    }
+  }
+}
@@ -0,0 +1,1703 @@
+import { App, Component, MarkdownRenderer, Notice, TFile, moment } from "obsidian";
+import {
+  ClaudeErrorKind,
+  ClaudeRunner,
+  RunUsage,
+  ToolUseEvent,
+  ToolResultEvent,
+} from "./claude-runner";
+import { ClaudeSession, startClaudeSession } from "./claude-session";
+import type { ClaudianSettings } from "./settings";
+import type {
+  PermissionBridge,
+  PermissionDecision,
+  PermissionRequest,
+} from "./permission-bridge";
+import { FileSnapshot, UndoStack } from "./snapshots";
+import { ChangeReview } from "./review";
+import type {
+  ChatSearchHit,
+  ChatStorage,
+  ChatTurnData,
+  ChatTurnStep,
+  Conversation,
+  ConversationSummary,
+} from "./chat-storage";
+import { ChatSearchModal } from "./chat-search";
+import {
+  ChatBranch,
+  ForkPoint,
+  alternativesAt,
+  branchThrough,
+  forkAt,
+  forkPointAt,
+  mergeBranches,
+  newTurnId,
+  switchBranch,
+  withTurnIds,
+} from "./chat-tree";
+import { ConfirmModal, TextInputModal } from "./dialogs";
+import type { BackgroundRun, RunManager } from "./run-manager";
+import { EditorContext, SelectionTarget, replaceSelection } from "./editor-context";
+import {
+  PromptTemplateContext,
+  SavedPrompt,
+  applyPromptOverrides,
+  renderPromptTemplate,
+} from "./saved-prompts";
+import { NoteSuggest } from "./note-suggest";
+import { StreamingMarkdown } from "./streaming-markdown";
+import { UsageLedger, formatUsage } from "./usage-ledger";
+import type { PendingRetry } from "./retry";
+import { Transcript, TranscriptStore, replayTranscript } from "./transcripts";
+import {
+  appendToChatLog,
+  buildConversationNote,
+  buildQuickActionNote,
+  changedPathsOf,
+  conversationMetadata,
+  createUniqueNote,
+} from "./note-export";
+
+interface ToolCard {
+  toolUse: ToolUseEvent;
+  toolResult?: ToolResultEvent;
+  cardEl: HTMLElement;
+  headerEl: HTMLElement;
+  statusEl: HTMLElement;
+  durationEl: HTMLElement;
+  bodyEl: HTMLElement;
+  resultEl: HTMLElement;
+  isExpanded: boolean;
+  // Where the chat turn saves the call and its result
+  step?: Extract<ChatTurnStep, { type: "tool" }>;
+}
+
+interface QuickResult {
+  prompt: string;
+  markdown: string;
+  usage: RunUsage;
+  changedPaths: string[];
+}
+
+// A tool result longer than this is cut short until "Show full" is clicked
+const RESULT_PREVIEW_LINES = 12;
+const RESULT_PREVIEW_CHARS = 1500;
+
+type PanelStatus = "idle" | "running" | "done" | "error" | "cancelled";
+
+// Status line for runs a limit stopped; the output they produced stays visible
+const STOP_LABELS: Partial<Record<ClaudeErrorKind, string>> = {
+  timeout: "Stopped: timeout.",
+  maxTurns: "Stopped: turn limit.",
+};
+
+// The panel whose chat process is using each conversation's session, so two panels never resume it at once
+const chatSessionOwners = new Map<string, ClaudePanel>();
+
+export interface ClaudePanelOptions {
+  settings: ClaudianSettings;
+  vaultPath: string;
+  storage: ChatStorage;
+  permissionBridge: PermissionBridge;
+  transcripts: TranscriptStore;
+  runManager: RunManager;
+  // Records what each chat turn cost; also checked against the budgets before a run
+  usageLedger: UsageLedger;
+  // Quick action to show instead of an empty prompt, e.g. one left running in the background
+  attachRun?: BackgroundRun;
+  // Editor state captured when the host opened; quick actions only
+  editorContext?: EditorContext;
+  selectionTarget?: SelectionTarget;
+  // Values for saved prompt template variables
+  templateContext?: PromptTemplateContext;
+  // Recorded run to play back in quick action mode; nothing is sent to Claude
+  replay?: Transcript;
+  // Saved prompt to fill in on open; autoRun starts it straight away
+  savedPrompt?: SavedPrompt;
+  autoRun?: boolean;
+  // Read on every run so a docked panel follows the note being edited
+  getCurrentFilePath: () => string | null;
+  // Show only the chat mode, without the quick action tab
+  chatOnly?: boolean;
+  // Called when Cancel or Escape is pressed while nothing is running
+  onClose?: () => void;
+}
+
+/**
+ * The Qlaude UI (quick action and chat modes), rendered into any container.
+ * Hosted by ClaudianModal and by the sidebar ClaudianChatView.
+ */
+export class ClaudePanel extends Component {
+  private app: App;
+  private containerEl: HTMLElement;
+  private options: ClaudePanelOptions;
+  private settings: ClaudianSettings;
+  private vaultPath: string;
+  private storage: ChatStorage;
+  private permissionBridge: PermissionBridge;
+
+  private activeFileEl!: HTMLElement;
+  private promptTextarea!: HTMLTextAreaElement;
+  private noteSuggest!: NoteSuggest;
+  private attachmentsEl!: HTMLElement;
+  // Notes picked with @ or [[ for the next run, keyed by path
+  private attachedNotes: Map<string, TFile> = new Map();
+  private quickOptionsEl!: HTMLElement;
+  private savedPromptSelect: HTMLSelectElement | null = null;
+  private replaceCheckbox!: HTMLInputElement;
+  // Settings with the chosen saved prompt's overrides, for quick actions
+  private quickSettings: ClaudianSettings | null = null;
+  private outputEl!: HTMLElement;
+  private statusEl!: HTMLElement;
+  private runBtn!: HTMLButtonElement;
+  private cancelBtn!: HTMLButtonElement;
+
+  // Mode
+  private mode: "quick" | "chat" = "quick";
+  private quickTabBtn!: HTMLButtonElement;
+  private chatTabBtn!: HTMLButtonElement;
+  private clearBtn!: HTMLButtonElement;
+  private undoBtn!: HTMLButtonElement;
+  private saveNoteBtn!: HTMLButtonElement;
+  private conversationEl!: HTMLElement;
+
+  // Conversation picker (chat mode)
+  private sessionBarEl!: HTMLElement;
+  private sessionSelect!: HTMLSelectElement;
+  private archiveBtn!: HTMLButtonElement;
+  private conversationId: string | null = null;
+  private conversationArchived = false;
+
+  private runner: ClaudeRunner | null = null;
+  // Quick actions run in the RunManager so they outlive the panel
+  private quickRun: BackgroundRun | null = null;
+  // Long-lived CLI process reused across chat turns
+  private chatSession: ClaudeSession | null = null;
+  // Active and attached notes the chat process was started with; they are part of its system prompt
+  private chatSessionKey: string | null = null;
+  private undoStack: UndoStack;
+  private status: PanelStatus = "idle";
+  private toolCards: Map<string, ToolCard> = new Map();
+  // Text Claude is streaming, until a tool call or the end of the turn closes it
+  private currentText: StreamingMarkdown | null = null;
+  // Body of the thinking section being streamed
+  private currentThinkingEl: HTMLElement | null = null;
+  private currentTurnMarkdown = "";  // full markdown for the current chat turn or quick action
+  private currentTurnSteps: ChatTurnStep[] = [];  // thinking and tool calls of the current chat turn
+  private persistedTurns: ChatTurnData[] = [];
+  // Turns on the conversation's other branches
+  private otherTurns: ChatTurnData[] = [];
+  // Where the next chat process branches off, until it reports its new session
+  private pendingFork: ForkPoint | null = null;
+  // The last finished quick action, for "Save as note"
+  private quickResult: QuickResult | null = null;
+  private currentTurnClaudeEl: HTMLElement | null = null;
+  private sessionId: string | null = null;
+  private loadingIndicatorEl: HTMLElement | null = null;
+  // Countdown shown while a failed run waits to be retried
+  private retryEl: HTMLElement | null = null;
+  private retryTimer: number | null = null;
+  // Tool names the user chose "Allow for session" for
+  private sessionAllowedTools: Set<string> = new Set();
+  private pendingPermissionPrompts: Set<() => void> = new Set();
+
+  constructor(app: App, containerEl: HTMLElement, options: ClaudePanelOptions) {
+    super();
+    this.app = app;
+    this.containerEl = containerEl;
+    this.options = options;
+    this.settings = options.settings;
+    this.vaultPath = options.vaultPath;
+    this.storage = options.storage;
+    this.permissionBridge = options.permissionBridge;
+    this.undoStack = new UndoStack(options.vaultPath);
+  }
+
+  private get currentFilePath(): string | null {
+    return this.options.getCurrentFilePath();
+  }
+
+  onload(): void {
+    const contentEl = this.containerEl;
+    contentEl.addClass("qlaude-modal");
+    this.register(this.storage.onChange((id) => void this.reloadConversation(id)));
+
+    // Header
+    const headerEl = contentEl.createDiv("qlaude-header");
+    headerEl.createEl("h2", { text: "Qlaude", cls: "qlaude-title" });
+    this.activeFileEl = headerEl.createSpan({ cls: "qlaude-active-file" });
+    this.refreshActiveFile();
+
+    // Mode tabs
+    const tabsEl = headerEl.createDiv("qlaude-mode-tabs");
+    if (this.options.chatOnly) tabsEl.hide();
+    this.quickTabBtn = tabsEl.createEl("button", {
+      text: "Quick action",
+      cls: "qlaude-mode-tab qlaude-mode-tab--active",
+    });
+    this.quickTabBtn.addEventListener("click", () => this.switchMode("quick"));
+    this.chatTabBtn = tabsEl.createEl("button", {
+      text: "Chat",
+      cls: "qlaude-mode-tab",
+    });
+    this.chatTabBtn.addEventListener("click", () => this.switchMode("chat"));
+
+    // Conversation picker (visible in chat mode only)
+    this.sessionBarEl = contentEl.createDiv("qlaude-sessions");
+    this.sessionSelect = this.sessionBarEl.createEl("select", {
+      cls: "dropdown qlaude-sessions__select",
+    });
+    this.sessionSelect.addEventListener("change", () => {
+      void this.switchConversation(this.sessionSelect.value);
+    });
+    const addSessionButton = (text: string, onClick: () => void) => {
+      const btn = this.sessionBarEl.createEl("button", { text, cls: "qlaude-sessions__btn" });
+      btn.addEventListener("click", onClick);
+      return btn;
+    };
+    addSessionButton("New", () => void this.handleNewConversation());
+    addSessionButton("Rename", () => void this.handleRenameConversation());
+    this.archiveBtn = addSessionButton("Archive", () => void this.handleArchiveConversation());
+    addSessionButton("Delete", () => void this.handleDeleteConversation());
+    addSessionButton("Search", () => this.handleSearch());
+
+    // Prompt area
+    const promptEl = contentEl.createDiv("qlaude-prompt-area");
+    this.promptTextarea = promptEl.createEl("textarea", {
+      cls: "qlaude-textarea",
+      attr: {
+        placeholder: "What should Claude do? (Ctrl+Enter to run)",
+        rows: "3",
+      },
+    });
+    this.attachmentsEl = promptEl.createDiv("qlaude-attachments");
+    this.noteSuggest = new NoteSuggest(this.app, this.promptTextarea, (file) =>
+      this.attachNote(file)
+    );
+
+    // Quick action options: saved prompt picker and output mode
+    this.quickOptionsEl = promptEl.createDiv("qlaude-quick-options");
+    const savedPrompts = this.settings.savedPrompts.filter((p) => p.body.trim());
+    if (savedPrompts.length > 0) {
+      const select = this.quickOptionsEl.createEl("select", {
+        cls: "dropdown qlaude-saved-prompt-select",
+      });
+      select.createEl("option", { text: "Saved prompt…", value: "" });
+      for (const prompt of savedPrompts) {
+        select.createEl("option", { text: prompt.name || "Untitled", value: prompt.id });
+      }
+      select.addEventListener("change", () => {
+        const prompt = savedPrompts.find((p) => p.id === select.value);
+        if (prompt) this.applySavedPrompt(prompt);
+        else this.quickSettings = null;
+        this.promptTextarea.focus();
+      });
+      this.savedPromptSelect = select;
+    }
+    const replaceOptionEl = this.quickOptionsEl.createEl("label", { cls: "qlaude-replace-option" });
+    this.replaceCheckbox = replaceOptionEl.createEl("input", { type: "checkbox" });
+    replaceOptionEl.appendText(" Replace selection with result");
+    replaceOptionEl.toggle(!!this.options.selectionTarget);
+    this.quickOptionsEl.toggle(!this.options.chatOnly);
+
+    this.promptTextarea.addEventListener("keydown", (e: KeyboardEvent) => {
+      if (this.noteSuggest.handleKeydown(e)) return;
+      if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
+        e.preventDefault();
+        this.handleRun();
+      }
+      if (e.key === "Escape") {
+        this.handleCancel();
+      }
+    });
+
+    // Buttons
+    const buttonsEl = contentEl.createDiv("qlaude-buttons");
+
+    this.clearBtn = buttonsEl.createEl("button", {
+      text: "Clear",
+      cls: "qlaude-btn qlaude-btn--clear",
+    });
+    this.clearBtn.addEventListener("click", () => this.handleClear());
+
+    this.undoBtn = buttonsEl.createEl("button", {
+      text: "Undo",
+      cls: "qlaude-btn qlaude-btn--undo",
+    });
+    this.undoBtn.addEventListener("click", () => void this.handleUndo());
+
+    this.saveNoteBtn = buttonsEl.createEl("button", {
+      text: "Save as note",
+      cls: "qlaude-btn qlaude-btn--save-note",
+    });
+    this.saveNoteBtn.addEventListener("click", () => void this.handleSaveNote());
+
+    this.cancelBtn = buttonsEl.createEl("button", {
+      text: "Cancel",
+      cls: "qlaude-btn qlaude-btn--cancel",
+    });
+    this.cancelBtn.addEventListener("click", () => this.handleCancel());
+
+    this.runBtn = buttonsEl.createEl("button", {
+      text: "Run",
+      cls: "qlaude-btn qlaude-btn--run",
+    });
+    this.runBtn.addEventListener("click", () => this.handleRun());
+
+    // Divider
+    contentEl.createEl("hr", { cls: "qlaude-divider" });
+
+    // Output area
+    this.outputEl = contentEl.createDiv("qlaude-output");
+
+    // Conversation container (chat mode, hidden by default via CSS)
+    this.conversationEl = this.outputEl.createDiv("qlaude-conversation");
+
+    // Status line
+    this.statusEl = contentEl.createDiv("qlaude-status");
+
+    if (this.options.chatOnly) this.switchMode("chat");
+    else if (this.options.attachRun) this.reattachQuickRun(this.options.attachRun);
+    else if (this.options.replay) this.startReplay(this.options.replay);
+    else if (this.options.savedPrompt) {
+      this.applySavedPrompt(this.options.savedPrompt);
+      if (this.options.autoRun) this.handleRun();
+    }
+
+    setTimeout(() => this.promptTextarea.focus(), 50);
+  }
+
+  onunload(): void {
+    this.noteSuggest.close();
+    this.clearRetry();
+    this.endTextBlock();
+    this.dismissPermissionPrompts();
+    this.detachQuickRun();
+    if (this.runner) {
+      this.runner.kill();
+      this.runner = null;
+    }
+    this.closeChatSession();
+    this.containerEl.empty();
+    this.containerEl.removeClass("qlaude-modal", "qlaude-modal--chat");
+  }
+
+  refreshActiveFile(): void {
+    const path = this.currentFilePath;
+    let text = path ? `Active file: ${path}` : "No active file";
+    const context = this.options.editorContext;
+    if (path && context && this.mode === "quick") {
+      text += context.selection
+        ? ` (${context.selection.length} characters selected)`
+        : ` (line ${context.cursorLine})`;
+    }
+    this.activeFileEl.textContent = text;
+    this.activeFileEl.toggleClass("qlaude-active-file--none", !path);
+  }
+
+  focus(): void {
+    this.promptTextarea.focus();
+  }
+
+  private attachNote(file: TFile): void {
+    this.attachedNotes.set(file.path, file);
+    this.renderAttachments();
+  }
+
+  private renderAttachments(): void {
+    this.attachmentsEl.empty();
+    this.attachmentsEl.toggleClass("is-visible", this.attachedNotes.size > 0);
+    for (const [path, file] of this.attachedNotes) {
+      const chipEl = this.attachmentsEl.createSpan({
+        cls: "qlaude-attachment",
+        attr: { title: path },
+      });
+      chipEl.createSpan({ text: file.basename });
+      const removeBtn = chipEl.createEl("button", {
+        text: "×",
+        cls: "qlaude-attachment__remove",
+        attr: { "aria-label": `Remove ${file.basename}` },
+      });
+      removeBtn.addEventListener("click", () => {
+        this.attachedNotes.delete(path);
+        this.renderAttachments();
+        this.promptTextarea.focus();
+      });
+    }
+  }
+
+  // Attachments apply to a single run; the list starts empty again afterwards
+  private takeAttachedPaths(): string[] {
+    const paths = [...this.attachedNotes.keys()];
+    this.attachedNotes.clear();
+    this.renderAttachments();
+    return paths;
+  }
+
+  private get activeOutputEl(): HTMLElement {
+    return this.mode === "chat" && this.currentTurnClaudeEl
+      ? this.currentTurnClaudeEl
+      : this.outputEl;
+  }
+
+  private handleRun(): void {
+    if (this.status === "running") return;
+
+    const prompt = this.promptTextarea.value.trim();
+    if (!prompt) return;
+
+    if (this.mode === "chat") {
+      if (this.claimChatSession()) this.runChat(prompt);
+    } else {
+      this.runQuick(prompt);
+    }
+  }
+
+  // Shows why a budget stops the run, if it does
+  private blockedByBudget(settings: ClaudianSettings): boolean {
+    const blocked = this.options.usageLedger.blockedByBudget(settings);
+    if (!blocked) return false;
+    this.appendError(blocked);
+    this.setStatus("error");
+    return true;
+  }
+
+  private runQuick(prompt: string): void {
+    if (this.blockedByBudget(this.quickSettings ?? this.settings)) return;
+    this.resetQuickOutput();
+    this.setStatus("running");
+    this.showLoadingIndicator();
+
+    const target = this.replaceCheckbox.checked ? this.options.selectionTarget : undefined;
+    const run = this.options.runManager.start(
+      {
+        prompt,
+        vaultPath: this.vaultPath,
+        currentFilePath: this.currentFilePath,
+        settings: this.quickSettings ?? this.settings,
+        quickAction: true,
+        permissionBridge: this.permissionBridge,
+        transcripts: this.options.transcripts,
+        editorContext: this.options.editorContext,
+        replaceSelection: !!target,
+        attachedPaths: this.takeAttachedPaths(),
+      },
+      target ? (finished) => this.writeResultToSelection(target, finished.finalText) : undefined
+    );
+    this.attachQuickRun(run);
+  }
+
+  // Runs even if the panel has closed in the meantime, so only touches the editor
+  private writeResultToSelection(target: SelectionTarget, text: string): string {
+    if (!text.trim()) return "Claude returned no text; the selection was left unchanged.";
+    return replaceSelection(target, text)
+      ? "Replaced the selection."
+      : "The selection changed while Claude was working; the result was not inserted.";
+  }
+
+  private applySavedPrompt(prompt: SavedPrompt): void {
+    const context = this.options.templateContext ?? {
+      filePath: this.currentFilePath,
+      selection: "",
+      frontmatter: null,
+    };
+    this.promptTextarea.value = renderPromptTemplate(prompt.body, context);
+    this.quickSettings = applyPromptOverrides(this.settings, prompt);
+    this.replaceCheckbox.checked = prompt.replaceSelection && !!this.options.selectionTarget;
+    if (this.savedPromptSelect) this.savedPromptSelect.value = prompt.id;
+  }
+
+  private reattachQuickRun(run: BackgroundRun): void {
+    this.promptTextarea.value = run.prompt;
+    this.resetQuickOutput();
+    if (run.status === "running") {
+      this.setStatus("running");
+      this.showLoadingIndicator();
+    }
+    this.attachQuickRun(run);
+  }
+
+  private resetQuickOutput(): void {
+    this.hideLoadingIndicator();
+    this.undoBtn.removeClass("is-visible");
+    this.outputEl.empty();
+    this.conversationEl = this.outputEl.createDiv("qlaude-conversation");
+
+    this.toolCards.clear();
+    this.endTextBlock();
+    this.currentTurnMarkdown = "";
+    this.currentTurnSteps = [];
+    this.quickResult = null;
+  }
+
+  // The run keeps going in the background; the status bar leads back to it
+  private detachQuickRun(): void {
+    this.clearRetry();
+    if (!this.quickRun) return;
+    this.quickRun.detach();
+    this.quickRun = null;
+    this.runner = null;
+  }
+
+  private attachQuickRun(run: BackgroundRun): void {
+    this.detachQuickRun();
+    this.quickRun = run;
+    this.undoStack = run.undoStack;
+    this.runner = { kill: () => run.cancel() };
+
+    run.attach({
+      onText: (text) => this.handleText(text),
+      onThinking: (text) => this.handleThinking(text),
+      onToolUse: (event) => this.handleToolUse(event),
+      onToolResult: (event) => this.handleToolResult(event),
+      onDone: (usage) => {
+        this.clearRetry();
+        this.hideLoadingIndicator();
+        this.endTextBlock();
+        this.promptTextarea.disabled = true;
+        this.finishUndoTurn(run.snapshots);
+        this.quickResult = {
+          prompt: run.prompt,
+          markdown: this.currentTurnMarkdown,
+          usage,
+          changedPaths: changedPathsOf(this.vaultPath, run.snapshots),
+        };
+        this.setStatus("done", describeDone(usage, run.doneMessage));
+      },
+      onError: (error) => {
+        this.clearRetry();
+        this.appendError(error.message, error.stderr);
+        this.hideLoadingIndicator();
+        this.promptTextarea.disabled = true;
+        this.finishUndoTurn(run.snapshots);
+        this.setStatus("error", STOP_LABELS[error.kind]);
+      },
+      onRetry: (retry) => this.showRetry(retry),
+      onPermissionRequest: (request) => this.requestPermission(request),
+    });
+    this.options.runManager.claim(run);
+  }
+
+  private startReplay(transcript: Transcript): void {
+    this.resetQuickOutput();
+    const bannerEl = this.outputEl.createDiv("qlaude-replay-banner");
+    bannerEl.setText(
+      `Replay of ${transcript.file}, recorded ${new Date(transcript.start.at).toLocaleString()}. ` +
+        "Nothing is sent to Claude."
+    );
+    this.setStatus("running", "Replaying transcript...");
+    this.showLoadingIndicator();
+
+    this.runner = replayTranscript(transcript, {
+      onInput: (text) => {
+        this.endTextBlock();
+        this.outputEl.createDiv({ text, cls: "qlaude-replay-input" });
+        this.setStatus("running", "Replaying transcript...");
+        this.bumpLoadingIndicator();
+        this.scrollOutputToBottom();
+      },
+      onInvalidLine: (line) => {
+        this.endTextBlock();
+        const lineEl = this.outputEl.createDiv("qlaude-replay-invalid");
+        lineEl.createDiv({ text: "Output that isn't JSON", cls: "qlaude-replay-invalid__label" });
+        lineEl.createEl("pre", { text: line });
+        this.bumpLoadingIndicator();
+      },
+      onText: (text) => this.handleText(text),
+      onThinking: (text) => this.handleThinking(text),
+      onToolUse: (event) => this.handleToolUse(event),
+      onToolResult: (event) => this.handleToolResult(event),
+      onSystemInit: () => {},
+      onDone: (usage) => {
+        this.hideLoadingIndicator();
+        this.endTextBlock();
+        this.setStatus("done", describeDone(usage, "Replay finished."));
+      },
+      onError: (error) => {
+        this.appendError(error.message, error.stderr);
+        this.hideLoadingIndicator();
+        this.setStatus("error", STOP_LABELS[error.kind]);
+      },
+    });
+  }
+
+  // `fromPromptBox` is false for an edited or regenerated message, which leaves the prompt box alone
+  private runChat(prompt: string, fromPromptBox = true): void {
+    if (this.blockedByBudget(this.settings)) return;
+    this.toolCards.clear();
+    this.endTextBlock();
+    this.currentTurnMarkdown = "";
+    this.currentTurnSteps = [];
+
+    const turnEl = this.conversationEl.createDiv("qlaude-turn");
+    turnEl.createDiv("qlaude-turn__user").textContent = prompt;
+    this.currentTurnClaudeEl = turnEl.createDiv("qlaude-turn__claude");
+
+    if (fromPromptBox) this.promptTextarea.value = "";
+    this.undoBtn.removeClass("is-visible");
+    this.undoStack.beginTurn();
+    this.setStatus("running");
+    this.showLoadingIndicator();
+    this.scrollOutputToBottom();
+
+    // The active and attached notes are baked into the running process, so
+    // different ones need a new process (resumed with --resume)
+    const currentFilePath = this.currentFilePath;
+    const attachedPaths = this.takeAttachedPaths();
+    const sessionKey = JSON.stringify([currentFilePath, attachedPaths]);
+    if (this.chatSession && this.chatSessionKey !== sessionKey) {
+      this.closeChatSession();
+    }
+    this.chatSessionKey = sessionKey;
+    this.chatSession ??= startClaudeSession({
+      vaultPath: this.vaultPath,
+      currentFilePath,
+      settings: this.settings,
+      sessionId: this.sessionId ?? undefined,
+      forkAtMessage: this.pendingFork?.messageUuid,
+      permissionBridge: this.permissionBridge,
+      transcripts: this.options.transcripts,
+      attachedPaths,
+    });
+    if (this.conversationId) chatSessionOwners.set(this.conversationId, this);
+
+    this.runner = this.chatSession.send(prompt, {
+      onText: (text) => this.handleText(text),
+      onThinking: (text) => this.handleThinking(text),
+      onToolUse: (event) => {
+        this.undoStack.capture(event.name, event.input);
+        this.handleToolUse(event);
+      },
+      onToolResult: (event) => this.handleToolResult(event),
+      onSystemInit: (sessionId, _tools) => {
+        this.sessionId = sessionId;
+        this.pendingFork = null;
+      },
+      onDone: (usage) => {
+        this.clearRetry();
+        this.hideLoadingIndicator();
+
+        // Persist the completed turn
+        const snapshots = this.undoStack.endTurn();
+        const turn: ChatTurnData = {
+          id: newTurnId(),
+          parentId: this.lastTurnId(),
+          userText: prompt,
+          claudeMarkdown: this.currentTurnMarkdown,
+          finishedAt: Date.now(),
+          model: usage.model,
+          costUsd: usage.costUsd,
+          changedPaths: changedPathsOf(this.vaultPath, snapshots),
+          sessionId: this.sessionId,
+          messageUuid: usage.messageUuid,
+          steps: this.currentTurnSteps,
+        };
+        this.persistedTurns.push(turn);
+        turnEl.dataset.turn = String(this.persistedTurns.length - 1);
+        void this.saveTurns();
+        void this.options.usageLedger.record("chat", usage);
+        void this.appendToChatLog(turn);
+
+        this.finishUndoTurn(snapshots);
+        this.currentTurnClaudeEl = null;
+        this.endTextBlock();
+        this.currentTurnMarkdown = "";
+        this.refreshTurnControls();
+        this.setStatus("done", describeDone(usage));
+        this.promptTextarea.disabled = false;
+        this.promptTextarea.focus();
+      },
+      onError: (error) => {
+        this.clearRetry();
+        this.appendError(error.message, error.stderr);
+        this.hideLoadingIndicator();
+        if (error.usage) void this.options.usageLedger.record("chat", error.usage);
+        // A turn a limit stopped keeps what Claude wrote before it
+        const stopLabel = STOP_LABELS[error.kind];
+        const snapshots = this.undoStack.endTurn();
+        if (stopLabel && this.currentTurnMarkdown.trim()) {
+          // Without the last message's ID, nothing can branch from this turn
+          const turn: ChatTurnData = {
+            id: newTurnId(),
+            parentId: this.lastTurnId(),
+            userText: prompt,
+            claudeMarkdown: `${this.currentTurnMarkdown}\n\n*${stopLabel}*`,
+            finishedAt: Date.now(),
+            model: error.usage?.model ?? this.settings.model,
+            costUsd: error.usage?.costUsd,
+            changedPaths: changedPathsOf(this.vaultPath, snapshots),
+            sessionId: this.sessionId,
+            messageUuid: null,
+            steps: this.currentTurnSteps,
+          };
+          this.persistedTurns.push(turn);
+          turnEl.dataset.turn = String(this.persistedTurns.length - 1);
+          void this.saveTurns();
+          void this.appendToChatLog(turn);
+        }
+        this.finishUndoTurn(snapshots);
+        this.currentTurnClaudeEl = null;
+        this.endTextBlock();
+        this.currentTurnMarkdown = "";
+        this.refreshTurnControls();
+        this.setStatus("error", stopLabel);
+        this.promptTextarea.disabled = false;
+      },
+      onRetry: (retry) => this.showRetry(retry),
+      onPermissionRequest: (request) => this.requestPermission(request),
+      onBeforeToolUse: (request) => this.undoStack.capture(request.toolName, request.input),
+    });
+  }
+
+  private switchMode(newMode: "quick" | "chat"): void {
+    if (newMode === this.mode) return;
+
+    this.dismissPermissionPrompts();
+    this.detachQuickRun();
+    if (this.runner) {
+      this.runner.kill();
+      this.runner = null;
+    }
+    this.closeChatSession();
+
+    this.clearRetry();
+    this.hideLoadingIndicator();
+    this.undoBtn.removeClass("is-visible");
+    this.mode = newMode;
+    this.currentTurnClaudeEl = null;
+    this.endTextBlock();
+    this.currentTurnMarkdown = "";
+    this.quickResult = null;
+    this.toolCards.clear();
+    this.undoStack = new UndoStack(this.vaultPath);
+    this.sessionAllowedTools.clear();
+    this.attachedNotes.clear();
+    this.renderAttachments();
+    this.promptTextarea.disabled = false;
+    this.setStatus("idle");
+
+    if (newMode === "quick") {
+      this.quickTabBtn.addClass("qlaude-mode-tab--active");
+      this.chatTabBtn.removeClass("qlaude-mode-tab--active");
+
+      // Reset chat state but keep session/turns in storage
+      this.sessionId = null;
+      this.persistedTurns = [];
+      this.otherTurns = [];
+      this.pendingFork = null;
+      this.conversationId = null;
+
+      this.outputEl.empty();
+      this.conversationEl = this.outputEl.createDiv("qlaude-conversation");
+
+      this.sessionBarEl.removeClass("is-visible");
+      this.quickOptionsEl.show();
+      this.clearBtn.removeClass("is-visible");
+      this.containerEl.removeClass("qlaude-modal--chat");
+      this.promptTextarea.setAttribute(
+        "placeholder",
+        "What should Claude do? (Ctrl+Enter to run)"
+      );
+    } else {
+      this.chatTabBtn.addClass("qlaude-mode-tab--active");
+      this.quickTabBtn.removeClass("qlaude-mode-tab--active");
+
+      this.outputEl.empty();
+      this.conversationEl = this.outputEl.createDiv("qlaude-conversation");
+      this.conversationEl.addClass("is-visible");
+
+      this.sessionBarEl.addClass("is-visible");
+      this.quickOptionsEl.hide();
+      this.quickSettings = null;
+      if (this.savedPromptSelect) this.savedPromptSelect.value = "";
+      this.clearBtn.addClass("is-visible");
+      this.containerEl.addClass("qlaude-modal--chat");
+      this.promptTextarea.setAttribute(
+        "placeholder",
+        "Message Claude... (Ctrl+Enter to send)"
+      );
+
+      void this.restoreConversation();
+    }
+
+    this.refreshActiveFile();
+    this.promptTextarea.focus();
+  }
+
+  private async restoreConversation(): Promise<void> {
+    const conversation = await this.storage.getActive();
+    await this.showConversation(conversation);
+  }
+
+  private async showConversation(conversation: Conversation): Promise<void> {
+    this.conversationId = conversation.id;
+    this.conversationArchived = conversation.archived;
+    this.sessionId = conversation.sessionId;
+    this.persistedTurns = withTurnIds(conversation.turns, conversation.sessionId);
+    this.otherTurns = [...(conversation.otherTurns ?? [])];
+    await this.renderTurns();
+    this.refreshSaveNoteButton();
+    await this.refreshConversationPicker();
+  }
+
+  // Renders the shown branch from scratch
+  private async renderTurns(): Promise<void> {
+    this.conversationEl.empty();
+    for (const [index, turn] of this.persistedTurns.entries()) {
+      const turnEl = this.conversationEl.createDiv("qlaude-turn");
+      turnEl.dataset.turn = String(index);
+      turnEl.createDiv("qlaude-turn__user").textContent = turn.userText;
+      const claudeEl = turnEl.createDiv("qlaude-turn__claude");
+      let shown = 0;
+      const renderText = async (end: number) => {
+        const markdown = turn.claudeMarkdown.slice(shown, end);
+        shown = Math.max(shown, end);
+        if (!markdown.trim()) return;
+        const textEl = claudeEl.createDiv("qlaude-text-block");
+        await MarkdownRenderer.render(this.app, markdown, textEl, this.currentFilePath ?? "", this);
+      };
+      for (const step of turn.steps ?? []) {
+        await renderText(step.offset);
+        if (step.type === "thinking") {
+          this.createThinking(claudeEl).appendText(step.text);
+          continue;
+        }
+        const card = this.createToolCard(claudeEl, { id: "", name: step.name, input: step.input });
+        if (step.result !== undefined) {
+          const result: ToolResultEvent = {
+            tool_use_id: "",
+            content: step.result,
+            is_error: step.isError ?? false,
+            durationMs: step.durationMs ?? null,
+          };
+          this.showToolResult(card, result, true);
+        }
+      }
+      await renderText(turn.claudeMarkdown.length);
+    }
+    this.refreshTurnControls();
+    this.scrollOutputToBottom();
+  }
+
+  // Branch arrows and Edit under each message, Regenerate under the last reply
+  private refreshTurnControls(): void {
+    this.conversationEl.querySelectorAll(".qlaude-turn__controls").forEach((el) => el.remove());
+    const branch = this.shownBranch();
+    const last = this.persistedTurns.length - 1;
+
+    for (const [index, turn] of this.persistedTurns.entries()) {
+      const turnEl = this.conversationEl.querySelector<HTMLElement>(`[data-turn="${index}"]`);
+      const userEl = turnEl?.querySelector<HTMLElement>(".qlaude-turn__user");
+      if (!turnEl || !userEl) continue;
+
+      const controlsEl = turnEl.createDiv("qlaude-turn__controls");
+      userEl.after(controlsEl);
+      const addControl = (parent: HTMLElement, text: string, onClick: () => void) => {
+        const btn = parent.createEl("button", { text, cls: "qlaude-turn__control" });
+        btn.addEventListener("click", onClick);
+        return btn;
+      };
+
+      const alternatives = alternativesAt(branch, index);
+      if (alternatives.length > 1) {
+        const position = alternatives.indexOf(turn);
+        const addArrow = (text: string, label: string, target: ChatTurnData | undefined) => {
+          const btn = addControl(controlsEl, text, () => {
+            if (target?.id) void this.switchToBranch(index, target.id);
+          });
+          btn.setAttribute("aria-label", label);
+          btn.disabled = !target;
+        };
+        addArrow("‹", "Previous version", alternatives[position - 1]);
+        controlsEl.createSpan({
+          text: `${position + 1}/${alternatives.length}`,
+          cls: "qlaude-turn__branch",
+        });
+        addArrow("›", "Next version", alternatives[position + 1]);
+      }
+      addControl(controlsEl, "Edit", () => this.startEditing(userEl, index));
+
+      if (index === last) {
+        const replyControlsEl = turnEl.createDiv("qlaude-turn__controls qlaude-turn__controls--reply");
+        addControl(replyControlsEl, "Regenerate", () => void this.resendFrom(index, turn.userText));
+      }
+    }
+  }
+
+  // Swaps the message for a text box; sending it starts a new branch from there
+  private startEditing(userEl: HTMLElement, index: number): void {
+    if (this.status === "running" || userEl.nextElementSibling?.hasClass("qlaude-turn__edit")) return;
+    userEl.hide();
+    const editEl = createDiv("qlaude-turn__edit");
+    userEl.after(editEl);
+    const textarea = editEl.createEl("textarea", { cls: "qlaude-textarea", attr: { rows: "3" } });
+    textarea.value = this.persistedTurns[index]?.userText ?? "";
+
+    const cancel = () => {
+      editEl.remove();
+      userEl.show();
+    };
+    const send = () => {
+      const text = textarea.value.trim();
+      if (!text) return;
+      cancel();
+      void this.resendFrom(index, text);
+    };
+    textarea.addEventListener("keydown", (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
+        e.preventDefault();
+        send();
+      }
+    });
+
+    const buttonsEl = editEl.createDiv("qlaude-turn__edit-buttons");
+    buttonsEl.createEl("button", { text: "Cancel" }).addEventListener("click", cancel);
+    buttonsEl.createEl("button", { text: "Send", cls: "mod-cta" }).addEventListener("click", send);
+    textarea.focus();
+  }
+
+  /**
+   * Sends `prompt` in place of turns[index]. The old turn and everything after
+   * it stay on their own branch, and the CLI session is forked from the reply
+   * before, so Claude doesn't see them.
+   */
+  private async resendFrom(index: number, prompt: string): Promise<void> {
+    if (this.status === "running" || !this.claimChatSession()) return;
+    const forkPoint = forkPointAt(this.persistedTurns, index);
+    if (forkPoint === undefined) {
+      new Notice(
+        "Can't branch here: the reply before this message was stopped early or saved before branching was added."
+      );
+      return;
+    }
+
+    const branch = forkAt(this.shownBranch(), index);
+    this.persistedTurns = branch.turns;
+    this.otherTurns = branch.otherTurns;
+    this.closeChatSession();
+    this.pendingFork = forkPoint;
+    this.sessionId = forkPoint?.sessionId ?? null;
+    await this.renderTurns();
+    this.runChat(prompt, false);
+  }
+
+  private async switchToBranch(index: number, turnId: string): Promise<void> {
+    if (this.status === "running") return;
+    await this.showBranch(switchBranch(this.shownBranch(), index, turnId));
+    this.conversationEl.querySelector(`[data-turn="${index}"]`)?.scrollIntoView({ block: "start" });
+  }
+
+  private shownBranch(): ChatBranch {
+    return { turns: this.persistedTurns, otherTurns: this.otherTurns };
+  }
+
+  private async showBranch(branch: ChatBranch): Promise<void> {
+    this.persistedTurns = branch.turns;
+    this.otherTurns = branch.otherTurns;
+    // Each branch carries on in the session its last reply came from
+    this.closeChatSession();
+    this.pendingFork = null;
+    this.sessionId = branch.turns[branch.turns.length - 1]?.sessionId ?? null;
+
+    await this.saveTurns();
+    await this.renderTurns();
+    await this.refreshConversationPicker();
+  }
+
+  private lastTurnId(): string | null {
+    return this.persistedTurns[this.persistedTurns.length - 1]?.id ?? null;
+  }
+
+  private saveTurns(): Promise<void> {
+    if (!this.conversationId) return Promise.resolve();
+    return this.storage.update(this.conversationId, (saved) => {
+      const stored = { turns: saved.turns, otherTurns: saved.otherTurns ?? [] };
+      const branch = mergeBranches(stored, this.shownBranch());
+      this.otherTurns = branch.otherTurns;
+      return { sessionId: this.sessionId, turns: branch.turns, otherTurns: branch.otherTurns };
+    });
+  }
+
+  // Another panel saved the conversation shown here; shows its turns unless this panel is busy with it
+  private async reloadConversation(id: string): Promise<void> {
+    if (id !== this.conversationId) return;
+    const conversation = await this.storage.get(id);
+    if (!conversation || id !== this.conversationId || this.status === "running") return;
+    const ids = (turns: ChatTurnData[] = []) => turns.map((t) => t.id).join(" ");
+    const changed =
+      ids(conversation.turns) !== ids(this.persistedTurns) ||
+      ids(conversation.otherTurns) !== ids(this.otherTurns);
+    if (!changed) return;
+    // The other panel may have carried on in a new session
+    if (conversation.sessionId !== this.sessionId) this.closeChatSession();
+    await this.showConversation(conversation);
+  }
+
+  /**
+   * Checks no other panel is sending to the conversation's session before this
+   * one does. An idle panel showing the same conversation closes its process
+   * so this one can resume the session; one waiting for Claude keeps it.
+   */
+  private claimChatSession(): boolean {
+    const owner = this.conversationId ? chatSessionOwners.get(this.conversationId) : undefined;
+    if (!owner || owner === this) return true;
+    if (owner.status === "running") {
+      new Notice("Claude is still replying in another panel showing this conversation.");
+      return false;
+    }
+    owner.closeChatSession();
+    return true;
+  }
+
+  private async refreshConversationPicker(): Promise<void> {
+    const conversations = await this.storage.list();
+    const byRecent = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt);
+
+    this.sessionSelect.empty();
+    const addOption = (parent: HTMLElement, conversation: ConversationSummary) => {
+      parent.createEl("option", {
+        text: `${conversation.name} (${conversation.turnCount})`,
+        value: conversation.id,
+      });
+    };
+    for (const conversation of byRecent.filter((c) => !c.archived)) {
+      addOption(this.sessionSelect, conversation);
+    }
+    const archived = byRecent.filter((c) => c.archived);
+    if (archived.length > 0) {
+      const group = this.sessionSelect.createEl("optgroup", { attr: { label: "Archived" } });
+      for (const conversation of archived) addOption(group, conversation);
+    }
+
+    if (this.conversationId) this.sessionSelect.value = this.conversationId;
+    this.archiveBtn.textContent = this.conversationArchived ? "Unarchive" : "Archive";
+  }
+
+  private async switchConversation(id: string): Promise<void> {
+    if (id === this.conversationId) return;
+    if (this.status === "running") {
+      // Keep the running conversation selected
+      if (this.conversationId) this.sessionSelect.value = this.conversationId;
+      return;
+    }
+
+    const conversation = await this.storage.get(id);
+    if (!conversation) return;
+    this.resetChatState();
+    await this.storage.setActive(id);
+    await this.showConversation(conversation);
+  }
+
+  private handleSearch(): void {
+    new ChatSearchModal(this.app, this.storage, (hit) => void this.jumpToTurn(hit)).open();
+  }
+
+  // Opens the hit's conversation and scrolls to the turn, marking it for a moment
+  private async jumpToTurn(hit: ChatSearchHit): Promise<void> {
+    await this.switchConversation(hit.conversation.id);
+    // Still on another conversation while Claude is responding
+    if (this.conversationId !== hit.conversation.id) return;
+    if (hit.otherBranch) {
+      if (this.status === "running" || !hit.turn.id) return;
+      await this.showBranch(branchThrough(this.shownBranch(), hit.turn.id));
+    }
+    const turnEl = this.conversationEl.querySelector<HTMLElement>(`[data-turn="${hit.turnIndex}"]`);
+    if (!turnEl) return;
+    turnEl.scrollIntoView({ block: "center" });
+    turnEl.addClass("qlaude-turn--found");
+    window.setTimeout(() => turnEl.removeClass("qlaude-turn--found"), 2000);
+  }
+
+  private async handleNewConversation(): Promise<void> {
+    if (this.status === "running") return;
+    this.resetChatState();
+    await this.showConversation(await this.storage.create());
+    this.promptTextarea.focus();
+  }
+
+  private async handleRenameConversation(): Promise<void> {
+    const id = this.conversationId;
+    if (!id) return;
+    const current = (await this.storage.list()).find((c) => c.id === id);
+    const name = await new TextInputModal(
+      this.app,
+      "Rename conversation",
+      current?.name ?? ""
+    ).openAndWait();
+    if (!name?.trim()) return;
+    await this.storage.update(id, { name: name.trim() });
+    await this.refreshConversationPicker();
+  }
+
+  private async handleArchiveConversation(): Promise<void> {
+    const id = this.conversationId;
+    if (!id || this.status === "running") return;
+
+    if (this.conversationArchived) {
+      await this.storage.update(id, { archived: false });
+      this.conversationArchived = false;
+      await this.refreshConversationPicker();
+      return;
+    }
+
+    await this.storage.update(id, { archived: true });
+    await this.openMostRecentConversation();
+  }
+
+  private async handleDeleteConversation(): Promise<void> {
+    const id = this.conversationId;
+    if (!id || this.status === "running") return;
+
+    const confirmed = await new ConfirmModal(
+      this.app,
+      "Delete conversation",
+      "This permanently removes the conversation and its history.",
+      "Delete"
+    ).openAndWait();
+    if (!confirmed) return;
+
+    await this.storage.delete(id);
+    await this.openMostRecentConversation();
+  }
+
+  // After archiving or deleting, fall back to the latest open conversation
+  private async openMostRecentConversation(): Promise<void> {
+    this.resetChatState();
+    const next = (await this.storage.list())
+      .filter((c) => !c.archived)
+      .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+    const conversation = next ? await this.storage.get(next.id) : null;
+    if (conversation) {
+      await this.storage.setActive(conversation.id);
+      await this.showConversation(conversation);
+    } else {
+      await this.showConversation(await this.storage.create());
+    }
+  }
+
+  private resetChatState(): void {
+    if (this.runner) {
+      this.runner.kill();
+      this.runner = null;
+    }
+    this.closeChatSession();
+
+    this.hideLoadingIndicator();
+    this.undoBtn.removeClass("is-visible");
+    this.undoStack.clear();
+    this.dismissPermissionPrompts();
+    this.sessionAllowedTools.clear();
+    this.conversationEl.empty();
+    this.sessionId = null;
+    this.persistedTurns = [];
+    this.otherTurns = [];
+    this.pendingFork = null;
+    this.endTextBlock();
+    this.currentTurnMarkdown = "";
+    this.currentTurnClaudeEl = null;
+    this.toolCards.clear();
+    this.promptTextarea.disabled = false;
+    this.setStatus("idle");
+  }
+
+  private handleClear(): void {
+    this.resetChatState();
+    if (this.conversationId) {
+      void this.storage
+        .update(this.conversationId, { sessionId: null, turns: [], otherTurns: [] })
+        .then(() => this.refreshConversationPicker());
+    }
+  }
+
+  private closeChatSession(): void {
+    this.chatSession?.close();
+    this.chatSession = null;
+    for (const [id, owner] of chatSessionOwners) {
+      if (owner === this) chatSessionOwners.delete(id);
+    }
+  }
+
+  private async handleUndo(): Promise<void> {
+    if (this.status === "running" || !this.undoStack.canUndo) return;
+
+    this.undoBtn.removeClass("is-visible");
+    try {
+      const restored = await this.undoStack.undo();
+      this.setStatus(
+        "done",
+        `Undone: restored ${restored.length} file${restored.length === 1 ? "" : "s"}.`
+      );
+    } catch (err) {
+      this.appendError(`Undo failed: ${(err as Error).message}`);
+      this.setStatus("error");
+    }
+    this.undoBtn.toggleClass("is-visible", this.undoStack.canUndo);
+  }
+
+  private refreshSaveNoteButton(): void {
+    const hasContent = this.mode === "chat" ? this.persistedTurns.length > 0 : this.quickResult !== null;
+    this.saveNoteBtn.toggleClass("is-visible", hasContent && this.status !== "running");
+  }
+
+  private async handleSaveNote(): Promise<void> {
+    if (this.status === "running") return;
+    let content: string;
+    let baseName: string;
+    const now = moment();
+    if (this.mode === "chat") {
+      if (this.persistedTurns.length === 0) return;
+      const conversation = (await this.storage.list()).find((c) => c.id === this.conversationId);
+      const name = conversation?.name ?? "Qlaude chat";
+      const metadata = conversationMetadata(this.persistedTurns, this.sessionId, this.settings.model);
+      content = buildConversationNote(name, this.persistedTurns, metadata);
+      baseName = `${name} ${now.format("YYYY-MM-DD HHmm")}`;
+    } else {
+      const result = this.quickResult;
+      if (!result) return;
+      content = buildQuickActionNote(result.prompt, result.markdown, {
+        date: now.valueOf(),
+        model: result.usage.model,
+        sessionId: result.usage.sessionId,
+        costUsd: result.usage.costUsd,
+        changedPaths: result.changedPaths,
+      });
+      baseName = `Qlaude quick action ${now.format("YYYY-MM-DD HHmmss")}`;
+    }
+
+    try {
+      const file = await createUniqueNote(this.app, this.settings.noteFolder, baseName, content);
+      new Notice(`Saved ${file.path}`);
+    } catch (err) {
+      new Notice(`Could not save the note: ${(err as Error).message}`);
+    }
+  }
+
+  // Failures are reported but don't affect the chat
+  private async appendToChatLog(turn: ChatTurnData): Promise<void> {
+    if (!this.settings.chatLogNote) return;
+    const conversation = (await this.storage.list()).find((c) => c.id === this.conversationId);
+    try {
+      await appendToChatLog(this.app, this.settings.chatLogNote, conversation?.name ?? "Chat", turn);
+    } catch (err) {
+      console.error("Claudian: Could not append to the chat log", err);
+      new Notice(`Could not append to the chat log: ${(err as Error).message}`);
+    }
+  }
+
+  private finishUndoTurn(snapshots: FileSnapshot[] = this.undoStack.endTurn()): void {
+    this.undoBtn.toggleClass("is-visible", this.undoStack.canUndo);
+
+    if (this.settings.reviewChanges && snapshots.length > 0) {
+      this.endTextBlock();
+      new ChangeReview(this.activeOutputEl, this.vaultPath, snapshots).render();
+      this.scrollOutputToBottom();
+    }
+  }
+
+  private handleCancel(): void {
+    if (this.status === "running" && this.runner) {
+      this.dismissPermissionPrompts();
+      this.runner.kill();
+      this.runner = null;
+      this.clearRetry();
+      this.hideLoadingIndicator();
+      this.finishUndoTurn(this.quickRun?.snapshots);
+      if (this.mode === "chat") {
+        this.currentTurnClaudeEl = null;
+        this.endTextBlock();
+        this.currentTurnMarkdown = "";
+        this.promptTextarea.disabled = false;
+      }
+      this.setStatus("cancelled");
+    } else {
+      this.options.onClose?.();
+    }
+  }
+
+  private requestPermission(request: PermissionRequest): Promise<PermissionDecision> {
+    if (this.sessionAllowedTools.has(request.toolName)) {
+      return Promise.resolve("allow");
+    }
+
+    return new Promise((resolve) => {
+      this.endTextBlock();
+      const promptEl = this.activeOutputEl.createDiv("qlaude-permission");
+      promptEl.createDiv({
+        text: `Claude wants to use ${request.toolName}`,
+        cls: "qlaude-permission__title",
+      });
+      const inputEl = promptEl.createEl("pre", { cls: "qlaude-permission__input" });
+      inputEl.textContent = JSON.stringify(request.input, null, 2);
+      const buttonsEl = promptEl.createDiv("qlaude-permission__buttons");
+
+      const settle = (decision: PermissionDecision, label: string) => {
+        if (!this.pendingPermissionPrompts.delete(dismiss)) return;
+        buttonsEl.remove();
+        promptEl.createDiv({ text: label, cls: "qlaude-permission__outcome" });
+        promptEl.addClass(decision === "allow" ? "is-allowed" : "is-denied");
+        if (this.pendingPermissionPrompts.size === 0 && this.status === "running") {
+          this.setStatus("running");
+        }
+        resolve(decision);
+      };
+      const dismiss = () => settle("deny", "Cancelled");
+      this.pendingPermissionPrompts.add(dismiss);
+
+      const addButton = (text: string, cls: string, onClick: () => void) => {
+        const btn = buttonsEl.createEl("button", { text, cls: `qlaude-permission__btn ${cls}` });
+        btn.addEventListener("click", onClick);
+      };
+      addButton("Allow once", "qlaude-permission__btn--allow", () =>
+        settle("allow", "Allowed once")
+      );
+      addButton("Allow for session", "qlaude-permission__btn--allow", () => {
+        this.sessionAllowedTools.add(request.toolName);
+        settle("allow", `Allowed ${request.toolName} for this session`);
+      });
+      addButton("Deny", "qlaude-permission__btn--deny", () => settle("deny", "Denied"));
+
+      this.setStatus("running", "Waiting for your approval...");
+      this.bumpLoadingIndicator();
+      this.scrollOutputToBottom();
+    });
+  }
+
+  private dismissPermissionPrompts(): void {
+    for (const dismiss of [...this.pendingPermissionPrompts]) dismiss();
+  }
+
+  private handleText(text: string): void {
+    this.currentThinkingEl = null;
+    this.currentText ??= new StreamingMarkdown(
+      this.app,
+      this.activeOutputEl.createDiv("qlaude-text-block"),
+      this.currentFilePath ?? "",
+      this,
+      () => {
+        this.bumpLoadingIndicator();
+        this.scrollOutputToBottom();
+      }
+    );
+    this.currentText.append(text);
+    this.currentTurnMarkdown += text;
+  }
+
+  private endTextBlock(): void {
+    this.currentText?.finish();
+    this.currentText = null;
+    this.currentThinkingEl = null;
+  }
+
+  private handleThinking(text: string): void {
+    if (this.currentText) this.endTextBlock();
+    if (!this.currentThinkingEl) {
+      this.currentThinkingEl = this.createThinking(this.activeOutputEl);
+      this.currentTurnSteps.push({ type: "thinking", offset: this.currentTurnMarkdown.length, text: "" });
+    }
+    this.currentThinkingEl.appendText(text);
+    const step = this.currentTurnSteps[this.currentTurnSteps.length - 1];
+    if (step?.type === "thinking") step.text += text;
+    this.bumpLoadingIndicator();
+    this.scrollOutputToBottom();
+  }
+
+  // A collapsed "Thinking" section; returns the element its text goes in
+  private createThinking(parentEl: HTMLElement): HTMLElement {
+    const detailsEl = parentEl.createEl("details", { cls: "qlaude-thinking" });
+    detailsEl.open = this.settings.transcriptDetail === "verbose";
+    detailsEl.createEl("summary", { text: "Thinking", cls: "qlaude-thinking__summary" });
+    return detailsEl.createDiv("qlaude-thinking__body");
+  }
+
+  private handleToolUse(event: ToolUseEvent): void {
+    // Separate text blocks across tool calls with a newline for persisted markdown
+    if (this.currentTurnMarkdown && !this.currentTurnMarkdown.endsWith("\n\n")) {
+      this.currentTurnMarkdown += "\n\n";
+    }
+    this.endTextBlock();
+
+    const card = this.createToolCard(this.activeOutputEl, event);
+    const offset = this.currentTurnMarkdown.length;
+    card.step = { type: "tool", offset, name: event.name, input: event.input };
+    this.currentTurnSteps.push(card.step);
+    this.toolCards.set(event.id, card);
+
+    this.bumpLoadingIndicator();
+    this.scrollOutputToBottom();
+  }
+
+  private createToolCard(parentEl: HTMLElement, event: ToolUseEvent): ToolCard {
+    const cardEl = parentEl.createDiv("qlaude-tool-card");
+
+    const headerEl = cardEl.createDiv("qlaude-tool-card__header");
+    const toggleEl = headerEl.createSpan({
+      text: "\u25B6",
+      cls: "qlaude-tool-card__toggle",
+    });
+    headerEl.createSpan({
+      text: event.name,
+      cls: "qlaude-tool-card__name",
+    });
+
+    const inputSummary = this.summarizeToolInput(event.name, event.input);
+    headerEl.createSpan({
+      text: inputSummary,
+      cls: "qlaude-tool-card__summary",
+    });
+    const durationEl = headerEl.createSpan({ cls: "qlaude-tool-card__duration" });
+    const statusEl = headerEl.createSpan({
+      text: "\u2026",
+      cls: "qlaude-tool-card__status",
+      attr: { "aria-label": "Running" },
+    });
+
+    const bodyEl = cardEl.createDiv("qlaude-tool-card__body");
+
+    const inputEl = bodyEl.createEl("pre", { cls: "qlaude-tool-card__input" });
+    inputEl.textContent = JSON.stringify(event.input, null, 2);
+
+    const resultEl = bodyEl.createDiv("qlaude-tool-card__result");
+    resultEl.textContent = "Waiting for result...";
+
+    const card: ToolCard = {
+      toolUse: event,
+      cardEl,
+      headerEl,
+      statusEl,
+      durationEl,
+      bodyEl,
+      resultEl,
+      isExpanded: false,
+    };
+
+    const setExpanded = (expanded: boolean) => {
+      card.isExpanded = expanded;
+      bodyEl.toggleClass("is-expanded", expanded);
+      toggleEl.textContent = expanded ? "\u25BC" : "\u25B6";
+    };
+    headerEl.addEventListener("click", () => setExpanded(!card.isExpanded));
+    setExpanded(this.settings.transcriptDetail === "verbose");
+    return card;
+  }
+
+  private handleToolResult(event: ToolResultEvent): void {
+    const card = this.toolCards.get(event.tool_use_id);
+    if (!card) return;
+    this.toolCards.delete(event.tool_use_id);
+    if (card.step) {
+      card.step.result = previewToolResult(event.content) ?? event.content;
+      card.step.isError = event.is_error;
+      card.step.durationMs = event.durationMs;
+    }
+    this.showToolResult(card, event);
+  }
+
+  // A saved result is already cut down to its preview, so it is shown whole
+  private showToolResult(card: ToolCard, event: ToolResultEvent, saved = false): void {
+    card.toolResult = event;
+    card.cardEl.addClass(event.is_error ? "is-error" : "is-success");
+    card.statusEl.setText(event.is_error ? "\u2717" : "\u2713");
+    card.statusEl.setAttr("aria-label", event.is_error ? "Failed" : "Succeeded");
+    if (event.durationMs !== null) card.durationEl.setText(formatDuration(event.durationMs));
+
+    const { resultEl } = card;
+    resultEl.empty();
+    resultEl.addClass("qlaude-tool-card__result--done");
+    if (!event.content.trim()) {
+      resultEl.setText("No output.");
+      return;
+    }
+    const preview = saved ? null : previewToolResult(event.content);
+    const textEl = resultEl.createEl("pre", {
+      text: preview ?? event.content,
+      cls: "qlaude-tool-card__result-text",
+    });
+    if (preview !== null) {
+      const showFullBtn = resultEl.createEl("button", {
+        text: "Show full",
+        cls: "qlaude-tool-card__show-full",
+      });
+      showFullBtn.addEventListener("click", () => {
+        textEl.setText(event.content);
+        showFullBtn.remove();
+      });
+    }
+  }
+
+  private appendError(message: string, stderr = ""): void {
+    this.endTextBlock();
+    const errorEl = this.activeOutputEl.createDiv("qlaude-error-block");
+    errorEl.createDiv({ text: message });
+    if (stderr) {
+      const detailsEl = errorEl.createEl("details", { cls: "qlaude-error-block__details" });
+      detailsEl.createEl("summary", { text: "Show CLI output" });
+      detailsEl.createEl("pre", { text: stderr, cls: "qlaude-error-block__stderr" });
+    }
+    this.bumpLoadingIndicator();
+    this.scrollOutputToBottom();
+  }
+
+  private showLoadingIndicator(): void {
+    const container =
+      this.mode === "chat" && this.currentTurnClaudeEl
+        ? this.currentTurnClaudeEl
+        : this.outputEl;
+    this.loadingIndicatorEl = container.createDiv("qlaude-loading");
+    this.loadingIndicatorEl.createSpan({ cls: "qlaude-loading__dot" });
+    this.loadingIndicatorEl.createSpan({ cls: "qlaude-loading__dot" });
+    this.loadingIndicatorEl.createSpan({ cls: "qlaude-loading__dot" });
+    this.scrollOutputToBottom();
+  }
+
+  private hideLoadingIndicator(): void {
+    if (this.loadingIndicatorEl) {
+      this.loadingIndicatorEl.remove();
+      this.loadingIndicatorEl = null;
+    }
+  }
+
+  // Counts down to an automatic retry, with buttons to retry straight away or give up
+  private showRetry(retry: PendingRetry): void {
+    this.clearRetry();
+    if (!retry.isWaiting()) return;
+    this.endTextBlock();
+
+    const retryEl = this.activeOutputEl.createDiv("qlaude-retry");
+    retryEl.createDiv({ text: retry.error.message, cls: "qlaude-retry__message" });
+    const countdownEl = retryEl.createDiv("qlaude-retry__countdown");
+    const buttonsEl = retryEl.createDiv("qlaude-retry__buttons");
+    const retryBtn = buttonsEl.createEl("button", { text: "Retry now", cls: "mod-cta" });
+    retryBtn.addEventListener("click", () => {
+      this.clearRetry();
+      this.setStatus("running");
+      retry.retryNow();
+    });
+    const giveUpBtn = buttonsEl.createEl("button", { text: "Give up" });
+    giveUpBtn.addEventListener("click", () => {
+      this.clearRetry();
+      retry.giveUp();
+    });
+
+    const tick = () => {
+      if (!retry.isWaiting()) {
+        // The retry started on its own, or the run ended
+        this.clearRetry();
+        if (this.status === "running") this.setStatus("running");
+        return;
+      }
+      const seconds = Math.max(0, Math.ceil((retry.retryAt - Date.now()) / 1000));
+      const text = `Retrying in ${seconds}s (attempt ${retry.attempt} of ${retry.maxAttempts})`;
+      countdownEl.setText(text);
+      this.setStatus("running", `${text}…`);
+    };
+    this.retryEl = retryEl;
+    this.retryTimer = window.setInterval(tick, 1000);
+    tick();
+    this.bumpLoadingIndicator();
+    this.scrollOutputToBottom();
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer !== null) {
+      window.clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.retryEl?.remove();
+    this.retryEl = null;
+  }
+
+  private bumpLoadingIndicator(): void {
+    if (this.loadingIndicatorEl?.parentElement) {
+      this.loadingIndicatorEl.parentElement.appendChild(this.loadingIndicatorEl);
+    }
+  }
+
+  private setStatus(status: PanelStatus, message?: string): void {
+    this.status = status;
+    // Without a host to close, Cancel is only useful as Stop
+    this.cancelBtn.toggle(status === "running" || this.options.onClose !== undefined);
+    this.statusEl.addClass("is-visible");
+    this.statusEl.className = "qlaude-status is-visible";
+    this.sessionBarEl.toggleClass("is-locked", status === "running");
+    this.conversationEl.toggleClass("is-running", status === "running");
+    this.sessionSelect.disabled = status === "running";
+
+    switch (status) {
+      case "running":
+        this.statusEl.addClass("qlaude-status--running");
+        this.statusEl.textContent = message ?? "Running...";
+        this.runBtn.disabled = true;
+        this.cancelBtn.textContent = "Stop";
+        break;
+
+      case "done":
+        this.statusEl.addClass("qlaude-status--done");
+        this.statusEl.textContent = message ?? "Done";
+        this.runBtn.disabled = false;
+        this.cancelBtn.textContent = this.mode === "chat" ? "Cancel" : "Close";
+        break;
+
+      case "error":
+        this.statusEl.addClass("qlaude-status--error");
+        this.statusEl.textContent = message ?? "Error occurred. See output above.";
+        this.runBtn.disabled = false;
+        this.cancelBtn.textContent = this.mode === "chat" ? "Cancel" : "Close";
+        break;
+
+      case "cancelled":
+        this.statusEl.addClass("qlaude-status--cancelled");
+        this.statusEl.textContent = "Cancelled.";
+        this.runBtn.disabled = false;
+        this.cancelBtn.textContent = this.mode === "chat" ? "Cancel" : "Close";
+        break;
+
+      case "idle":
+        this.statusEl.removeClass("is-visible");
+        this.runBtn.disabled = false;
+        this.cancelBtn.textContent = "Cancel";
+        break;
+    }
+    this.refreshSaveNoteButton();
+  }
+
+  private summarizeToolInput(
+    toolName: string,
+    input: Record<string, unknown>
+  ): string {
+    const str = (v: unknown) => (typeof v === "string" ? v : "");
+    switch (toolName) {
+      case "Read":
+      case "Edit":
+      case "Write":
+        return str(input.file_path);
+      case "Glob":
+      case "Grep":
+        return str(input.pattern);
+      case "LS":
+        return str(input.path) || ".";
+      default:
+        return Object.keys(input).slice(0, 2).join(", ");
+    }
+  }
+
+  private scrollOutputToBottom(): void {
+    this.outputEl.scrollTop = this.outputEl.scrollHeight;
+  }
+}
+
+// The start of a long tool result, or null when it is short enough to show whole
+function previewToolResult(content: string): string | null {
+  const lines = content.split("\n");
+  if (lines.length <= RESULT_PREVIEW_LINES && content.length <= RESULT_PREVIEW_CHARS) return null;
+  const preview = lines.slice(0, RESULT_PREVIEW_LINES).join("\n").slice(0, RESULT_PREVIEW_CHARS);
+  return `${preview}\n\u2026`;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function describeDone(usage: RunUsage, message?: string | null): string {
+  return `${message ?? "Done."} ${formatUsage(usage)}`;
+}
@@ -1,5 +1,26 @@
 import { spawn, ChildProcess } from "child_process";
-import { ClaudianSettings, buildToolsList, buildPermissionInstructions } from "./settings";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ClaudianSettings, buildPermissionInstructions } from "./settings";
+import {
+  CliPermissionRules,
+  buildPermissionRules,
+  classifyToolCall,
+  withoutAskPermissions,
+  withoutEditPermissions,
+} from "./permissions";
+import { EditorContext, buildEditorContextInstructions } from "./editor-context";
+import {
+  PERMISSION_PROMPT_TOOL,
+  PermissionBridge,
+  PermissionDecision,
+  PermissionRequest,
+  PermissionRoute,
+} from "./permission-bridge";
+import { PendingRetry, withRetry } from "./retry";
+import { isWriteTool } from "./snapshots";
+import type { TranscriptStore } from "./transcripts";
 
 export interface ToolUseEvent {
   id: string;
@@ -10,18 +31,71 @@ export interface ToolUseEvent {
 export interface ToolResultEvent {
   tool_use_id: string;
   content: string;
+  is_error: boolean;
+  // From the tool call arriving to its result; null if the call wasn't seen
+  durationMs: number | null;
+}
+
+// Figures from the CLI's result event
+export interface RunUsage {
+  turns: number;
+  costUsd: number;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  // Model the run was started with
+  model: string;
+  sessionId: string | null;
+  // Last assistant message, where a fork of the session can pick up (--resume-session-at)
+  messageUuid: string | null;
+}
+
+export type ClaudeErrorKind =
+  // Not logged in, or the API key was rejected
+  | "auth"
+  // The binary path doesn't point at the CLI
+  | "notFound"
+  | "rateLimited"
+  // The API couldn't be reached or had a temporary server error
+  | "network"
+  | "maxTurns"
+  // Still running when the time limit ran out
+  | "timeout"
+  // Ended by a signal Qlaude didn't send
+  | "killed"
+  | "failed";
+
+export interface ClaudeError {
+  kind: ClaudeErrorKind;
+  // What went wrong and, where known, what to do about it
+  message: string;
+  // Everything the CLI wrote to stderr, shown on request; may be empty
+  stderr: string;
+  // What the run used before it failed, when the CLI reported it in an error result
+  usage?: RunUsage;
 }
 
 export interface ClaudeRunnerCallbacks {
   onText: (text: string) => void;
+  // Extended thinking, streamed like text; optional since only the transcript shows it
+  onThinking?: (text: string) => void;
   onToolUse: (event: ToolUseEvent) => void;
   onToolResult: (event: ToolResultEvent) => void;
   onSystemInit: (sessionId: string, tools: string[]) => void;
-  onDone: (turns: number, costUsd: number) => void;
-  onError: (message: string) => void;
+  onDone: (usage: RunUsage) => void;
+  onError: (error: ClaudeError) => void;
+  // A transient failure will be retried after a wait; see withRetry
+  onRetry?: (retry: PendingRetry) => void;
+  // Called for tool calls under an "ask" permission; missing means deny
+  onPermissionRequest?: (request: PermissionRequest) => Promise<PermissionDecision>;
+  // Called for an allowed Edit or Write while the CLI still holds it, so the file can be snapshotted
+  onBeforeToolUse?: (request: PermissionRequest) => void;
 }
 
 export interface ClaudeRunner {
+  // Stops the run; no callback fires after this
   kill: () => void;
 }
 
@@ -33,13 +107,25 @@ export interface RunClaudeOptions {
   callbacks: ClaudeRunnerCallbacks;
   sessionId?: string;
   quickAction?: boolean;
+  permissionBridge?: PermissionBridge;
+  // Selection, cursor line and heading section of the active editor
+  editorContext?: EditorContext;
+  // The final reply replaces the selection, so file edits are turned off
+  replaceSelection?: boolean;
+  // Notes the user attached with @ or [[; readable whatever the read permission
+  attachedPaths?: string[];
+  // Records the process's output when debug transcripts are on
+  transcripts?: TranscriptStore;
 }
 
 export function buildSystemPrompt(
   vaultPath: string,
   currentFilePath: string | null,
   settings: ClaudianSettings,
-  quickAction?: boolean
+  quickAction?: boolean,
+  editorContext?: EditorContext,
+  replaceSelection?: boolean,
+  attachedPaths: string[] = []
 ): string {
   const lines: string[] = [];
 
@@ -55,6 +141,17 @@ export function buildSystemPrompt(
     lines.push("Currently active file: (none)");
   }
 
+  if (attachedPaths.length > 0) {
+    lines.push("");
+    lines.push("## Attached Notes");
+    lines.push("");
+    lines.push(
+      "The user attached these notes as context for this request. You may read them " +
+      "even where the permissions below restrict reading:"
+    );
+    for (const attached of attachedPaths) lines.push(`- ${attached}`);
+  }
+
   lines.push("");
   lines.push("## File Path Guidelines");
   lines.push("");
@@ -77,6 +174,11 @@ export function buildSystemPrompt(
 
   lines.push(buildPermissionInstructions(settings, currentFilePath));
 
+  if (editorContext) {
+    lines.push("");
+    lines.push(buildEditorContextInstructions(editorContext, replaceSelection ?? false));
+  }
+
   if (quickAction) {
     lines.push("");
     lines.push("## Mode");
@@ -94,17 +196,38 @@ export function buildSystemPrompt(
   return lines.join("\n");
 }
 
+// State carried from line to line of one process's output
+export interface StreamState {
+  // Message being streamed by --include-partial-messages, from its message_start event
+  messageId: string | null;
+  // Messages whose text and thinking already arrived as deltas, so aren't dispatched again
+  streamed: Set<string>;
+  // When each tool call arrived, by tool use ID, for the result's duration
+  toolStartedAt: Map<string, number>;
+  // UUID of the latest assistant message, reported with the result
+  lastAssistantUuid: string | null;
+}
+
+// What parseAndDispatch made of a line, for debug transcripts
+export type LineOutcome = "handled" | "ignored" | "invalid";
+
+export function newStreamState(): StreamState {
+  return { messageId: null, streamed: new Set(), toolStartedAt: new Map(), lastAssistantUuid: null };
+}
+
 export function parseAndDispatch(
   line: string,
-  callbacks: ClaudeRunnerCallbacks
-): void {
-  if (!line.trim()) return;
+  callbacks: ClaudeRunnerCallbacks,
+  stream: StreamState,
+  model = ""
+): LineOutcome {
+  if (!line.trim()) return "ignored";
 
   let event: Record<string, unknown>;
   try {
     event = JSON.parse(line) as Record<string, unknown>;
   } catch {
-    return;
+    return "invalid";
   }
 
   const type = event.type as string;
@@ -117,22 +240,53 @@ export function parseAndDispatch(
         (t) => t.name
       ) ?? [];
       callbacks.onSystemInit(sessionId, tools);
+      return "handled";
     }
-    return;
+    return "ignored";
+  }
+
+  if (type === "stream_event") {
+    const streamEvent = event.event as Record<string, unknown> | undefined;
+    if (streamEvent?.type === "message_start") {
+      const message = streamEvent.message as { id?: string } | undefined;
+      stream.messageId = message?.id ?? null;
+      return "handled";
+    } else if (streamEvent?.type === "content_block_delta") {
+      const delta = streamEvent.delta as
+        | { type?: string; text?: string; thinking?: string }
+        | undefined;
+      if (delta?.type === "text_delta" && delta.text) {
+        if (stream.messageId) stream.streamed.add(stream.messageId);
+        callbacks.onText(delta.text);
+        return "handled";
+      } else if (delta?.type === "thinking_delta" && delta.thinking) {
+        if (stream.messageId) stream.streamed.add(stream.messageId);
+        callbacks.onThinking?.(delta.thinking);
+        return "handled";
+      }
+    }
+    return "ignored";
   }
 
   if (type === "assistant") {
     const message = event.message as {
+      id?: string;
       content: Array<Record<string, unknown>>;
     };
-    if (!message?.content) return;
+    if (!message?.content) return "ignored";
+    if (typeof event.uuid === "string") stream.lastAssistantUuid = event.uuid;
+    const streamed = message.id !== undefined && stream.streamed.has(message.id);
 
     for (const block of message.content) {
       const blockType = block.type as string;
       if (blockType === "text") {
         const text = block.text as string;
-        if (text) callbacks.onText(text);
+        if (text && !streamed) callbacks.onText(text);
+      } else if (blockType === "thinking") {
+        const thinking = block.thinking as string;
+        if (thinking && !streamed) callbacks.onThinking?.(thinking);
       } else if (blockType === "tool_use") {
+        stream.toolStartedAt.set(block.id as string, Date.now());
         callbacks.onToolUse({
           id: block.id as string,
           name: block.name as string,
@@ -140,14 +294,14 @@ export function parseAndDispatch(
         });
       }
     }
-    return;
+    return "handled";
   }
 
   if (type === "user") {
     const message = event.message as {
       content: Array<Record<string, unknown>>;
     };
-    if (!message?.content) return;
+    if (!message?.content) return "ignored";
 
     for (const block of message.content) {
       const blockType = block.type as string;
@@ -163,127 +317,518 @@ export function parseAndDispatch(
         } else {
           contentStr = JSON.stringify(rawContent);
         }
+        const toolUseId = block.tool_use_id as string;
+        const startedAt = stream.toolStartedAt.get(toolUseId);
+        stream.toolStartedAt.delete(toolUseId);
         callbacks.onToolResult({
-          tool_use_id: block.tool_use_id as string,
+          tool_use_id: toolUseId,
           content: contentStr,
+          is_error: block.is_error === true,
+          durationMs: startedAt !== undefined ? Date.now() - startedAt : null,
         });
       }
     }
-    return;
+    return "handled";
   }
 
   if (type === "result") {
-    const subtype = event.subtype as string;
-    if (subtype === "success") {
-      const turns = (event.num_turns as number) ?? 0;
-      const cost = (event.cost_usd as number) ?? 0;
-      callbacks.onDone(turns, cost);
-    } else if (subtype === "error") {
-      const error = event.error as string | undefined;
-      callbacks.onError(error ?? "Unknown error from Claude");
+    // Failed runs are billed too, so every result carries its usage
+    const usage = parseUsage(event, model, stream.lastAssistantUuid);
+    // A failed API call can arrive as a "success" that is flagged as an error
+    if (event.subtype === "success" && event.is_error !== true) {
+      callbacks.onDone(usage);
+    } else {
+      callbacks.onError({ ...resultError(event), usage });
     }
-    return;
+    return "handled";
   }
+
+  return "ignored";
 }
 
-export function runClaude(options: RunClaudeOptions): ClaudeRunner {
-  const { prompt, vaultPath, currentFilePath, settings, callbacks, sessionId, quickAction } = options;
+const AUTH_PATTERN =
+  /not logged in|log ?in again|\/login|invalid api key|authentication|unauthori[sz]ed|\b401\b|oauth token/i;
+const RATE_LIMIT_PATTERN = /rate.?limit|\b429\b|\b529\b|overloaded|usage limit|too many requests/i;
+const NETWORK_PATTERN =
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network error|connection error|\b50[234]\b|internal server error|api_error/i;
+
+export function claudeError(kind: ClaudeErrorKind, message: string, stderr = ""): ClaudeError {
+  return { kind, message, stderr };
+}
+
+/**
+ * Recognises login and rate-limit failures in what the CLI reported, so the
+ * message says how to fix them; anything else keeps `detail` as its message.
+ */
+export function classifyError(
+  detail: string,
+  stderr = "",
+  fallback: ClaudeErrorKind = "failed"
+): ClaudeError {
+  const text = `${detail}\n${stderr}`;
+  const suffix = detail ? `\n\n${detail}` : "";
+  if (AUTH_PATTERN.test(text)) {
+    return claudeError(
+      "auth",
+      "Claude Code is not logged in or its API key was rejected. Run `claude` in a terminal " +
+        "and log in (or set ANTHROPIC_API_KEY), then try again." + suffix,
+      stderr
+    );
+  }
+  if (RATE_LIMIT_PATTERN.test(text)) {
+    return claudeError(
+      "rateLimited",
+      "Claude is rate limited or overloaded. Wait a minute and try again." + suffix,
+      stderr
+    );
+  }
+  if (NETWORK_PATTERN.test(text)) {
+    return claudeError(
+      "network",
+      "Claude couldn't reach the API, or the API had a temporary problem. Check your connection and try again." +
+        suffix,
+      stderr
+    );
+  }
+  return claudeError(fallback, detail, stderr);
+}
+
+function resultError(event: Record<string, unknown>): ClaudeError {
+  if (event.subtype === "error_max_turns") {
+    const turns = typeof event.num_turns === "number" ? ` after ${event.num_turns} turns` : "";
+    return claudeError(
+      "maxTurns",
+      `Stopped: turn limit. Claude stopped${turns}, the most it may take for one request; ` +
+        "its output so far is kept above. Ask it to continue, raise Max turns in the settings " +
+        "or the saved prompt, or split the request into smaller steps."
+    );
+  }
+
+  let detail = "";
+  if (typeof event.result === "string") detail = event.result;
+  else if (typeof event.error === "string") detail = event.error;
+  else if (Array.isArray(event.errors)) detail = event.errors.map(String).join("\n");
+
+  if (event.subtype === "error_during_execution") {
+    return classifyError(
+      detail ? `Claude hit an error while working: ${detail}` : "Claude hit an error while working."
+    );
+  }
+  return classifyError(detail || "Unknown error from Claude");
+}
+
+export function timeoutError(minutes: number): ClaudeError {
+  return claudeError(
+    "timeout",
+    `Stopped: timeout. Claude was still working after ${minutes} minute${minutes === 1 ? "" : "s"}, ` +
+      "the time limit for one request; its output so far is kept above. Raise Timeout in the " +
+      "settings or the saved prompt to give it longer."
+  );
+}
+
+/**
+ * Error for a process that ended before its result event, from its exit code
+ * or signal and the last thing it wrote to stderr.
+ */
+export function exitError(code: number | null, signal: NodeJS.Signals | null, stderr: string): ClaudeError {
+  const lastLine = stderr.trim().split("\n").pop()?.trim() ?? "";
+  if (signal) {
+    return claudeError(
+      "killed",
+      `Claude was stopped by ${signal} before it finished, possibly by the system running low ` +
+        "on memory. Try again.",
+      stderr
+    );
+  }
+  if (code !== 0 && code !== null) {
+    return classifyError(
+      lastLine ? `Claude exited with code ${code}: ${lastLine}` : `Claude exited with code ${code}.`,
+      stderr
+    );
+  }
+  return classifyError(
+    lastLine
+      ? `Claude exited without a result: ${lastLine}`
+      : "Claude exited without a result. Check that the binary path points at Claude Code.",
+    stderr
+  );
+}
+
+// Keeps the tail of a process's stderr for error details
+export class StderrBuffer {
+  private text = "";
+
+  constructor(private maxLength = 20_000) {}
+
+  append(chunk: Buffer): void {
+    this.text = (this.text + chunk.toString("utf8")).slice(-this.maxLength);
+  }
 
-  const tools = buildToolsList(settings);
-  const systemPrompt = buildSystemPrompt(vaultPath, currentFilePath, settings, quickAction);
+  toString(): string {
+    return this.text.trim();
+  }
+}
+
+function parseUsage(event: Record<string, unknown>, model: string, messageUuid: string | null): RunUsage {
+  const number = (value: unknown) => (typeof value === "number" ? value : 0);
+  const usage = (event.usage ?? {}) as Record<string, unknown>;
+  return {
+    turns: number(event.num_turns),
+    // Older CLI versions report cost_usd
+    costUsd: number(event.total_cost_usd ?? event.cost_usd),
+    durationMs: number(event.duration_ms),
+    inputTokens: number(usage.input_tokens),
+    outputTokens: number(usage.output_tokens),
+    cacheReadTokens: number(usage.cache_read_input_tokens),
+    cacheCreationTokens: number(usage.cache_creation_input_tokens),
+    model,
+    sessionId: typeof event.session_id === "string" ? event.session_id : null,
+    messageUuid,
+  };
+}
+
+// Rules go in a settings file rather than argv: path fences can be long
+function writeRulesFile(dir: string, rules: CliPermissionRules): string {
+  const file = path.join(dir, "settings.json");
+  fs.writeFileSync(file, JSON.stringify({ permissions: rules }), "utf8");
+  return file;
+}
+
+export interface LaunchOptions {
+  vaultPath: string;
+  currentFilePath: string | null;
+  settings: ClaudianSettings;
+  quickAction?: boolean;
+  permissionBridge?: PermissionBridge;
+  editorContext?: EditorContext;
+  replaceSelection?: boolean;
+  attachedPaths?: string[];
+  // Callbacks of the turn in progress, consulted when a permission prompt arrives
+  getCallbacks: () => ClaudeRunnerCallbacks | null;
+}
+
+export interface ClaudeLaunch {
+  // Arguments shared by every invocation; callers add the prompt and --resume
+  args: string[];
+  settings: ClaudianSettings;
+  cleanup: () => void;
+}
+
+/**
+ * Builds the CLI arguments for a run along with its permission plumbing
+ * (rules file, approval route). Throws if the rules cannot be written.
+ */
+export function prepareLaunch(options: LaunchOptions): ClaudeLaunch {
+  const { vaultPath, currentFilePath, quickAction, permissionBridge, getCallbacks } = options;
+  const { editorContext, replaceSelection } = options;
+  const attachedPaths = options.attachedPaths ?? [];
+
+  let settings = replaceSelection ? withoutEditPermissions(options.settings) : options.settings;
+  let permissionRoute: PermissionRoute | null = null;
+  if (permissionBridge?.isRunning) {
+    // Every tool call the CLI rules do not settle is checked here, then asked or denied
+    const decide = async (request: PermissionRequest): Promise<PermissionDecision> => {
+      const mode = classifyToolCall(
+        settings,
+        vaultPath,
+        currentFilePath,
+        request.toolName,
+        request.input,
+        attachedPaths
+      );
+      if (mode === "allow") return "allow";
+      const onPermissionRequest = getCallbacks()?.onPermissionRequest;
+      if (mode === "deny" || !onPermissionRequest) return "deny";
+      return onPermissionRequest(request);
+    };
+    permissionRoute = permissionBridge.register(async (request) => {
+      const decision = await decide(request);
+      // The tool runs only once this answer is back, so the file is still untouched
+      if (decision === "allow") getCallbacks()?.onBeforeToolUse?.(request);
+      return decision;
+    });
+  } else {
+    // Without the bridge nobody can answer a prompt, so "ask" degrades to "deny"
+    settings = withoutAskPermissions(settings);
+  }
+
+  const systemPrompt = buildSystemPrompt(
+    vaultPath,
+    currentFilePath,
+    settings,
+    quickAction,
+    editorContext,
+    replaceSelection,
+    attachedPaths
+  );
+
+  let rulesDir: string | null = null;
+  const cleanup = () => {
+    permissionRoute?.dispose();
+    permissionRoute = null;
+    if (rulesDir) {
+      fs.rmSync(rulesDir, { recursive: true, force: true });
+      rulesDir = null;
+    }
+  };
 
   const args: string[] = [
-    "-p",
-    prompt,
     "--output-format",
     "stream-json",
     "--verbose",
+    // Text arrives as it is generated rather than a whole message at a time
+    "--include-partial-messages",
     "--model",
     settings.model,
     "--system-prompt",
     systemPrompt,
-    "--allowedTools",
-    tools.join(","),
-    "--dangerously-skip-permissions",
   ];
 
-  if (sessionId) {
-    args.push("--resume", sessionId);
+  try {
+    const rules = buildPermissionRules(
+      settings,
+      vaultPath,
+      currentFilePath,
+      attachedPaths,
+      permissionRoute !== null
+    );
+    if (permissionRoute) {
+      // Edits the rules would let through straight away go to the prompt instead, to be snapshotted first
+      rules.allow = rules.allow.filter((rule) => !isWriteTool(rule.split("(")[0]));
+    }
+    rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), "qlaude-"));
+    args.push("--settings", writeRulesFile(rulesDir, rules));
+  } catch (err) {
+    cleanup();
+    throw err;
+  }
+
+  if (settings.maxTurns > 0) {
+    args.push("--max-turns", String(settings.maxTurns));
+  }
+
+  if (permissionRoute) {
+    args.push(
+      "--mcp-config",
+      permissionRoute.mcpConfig,
+      "--permission-prompt-tool",
+      PERMISSION_PROMPT_TOOL
+    );
+  }
+
+  return { args, settings, cleanup };
+}
+
+export function describeSpawnError(err: NodeJS.ErrnoException, settings: ClaudianSettings): ClaudeError {
+  if (err.code === "ENOENT") {
+    return claudeError(
+      "notFound",
+      `Claude binary not found at "${settings.claudeBinaryPath}". ` +
+        `Please check the binary path in Claudian settings.`
+    );
   }
+  return claudeError("failed", `Failed to start Claude: ${err.message}`);
+}
 
+export function spawnClaude(
+  settings: ClaudianSettings,
+  args: string[],
+  vaultPath: string,
+  stdin: "ignore" | "pipe"
+): ChildProcess {
   const env = { ...process.env };
   delete env.CLAUDECODE;
   delete env.CLAUDE_CODE;
 
-  let proc: ChildProcess;
+  return spawn(settings.claudeBinaryPath, args, {
+    cwd: vaultPath,
+    env,
+    stdio: [stdin, "pipe", "pipe"],
+  });
+}
+
+// How long a process gets to exit after SIGTERM before it is killed outright
+const KILL_GRACE_MS = 5000;
+
+/** Sends SIGTERM, then SIGKILL if the process is still running after a grace period. */
+export function terminateProcess(proc: ChildProcess): void {
+  if (proc.exitCode !== null || proc.signalCode !== null) return;
   try {
-    proc = spawn(settings.claudeBinaryPath, args, {
-      cwd: vaultPath,
-      env,
-      stdio: ["ignore", "pipe", "pipe"],
-    });
-  } catch (err) {
-    const error = err as NodeJS.ErrnoException;
-    if (error.code === "ENOENT") {
-      callbacks.onError(
-        `Claude binary not found at "${settings.claudeBinaryPath}". ` +
-          `Please check the binary path in Claudian settings.`
-      );
-    } else {
-      callbacks.onError(`Failed to start Claude: ${error.message}`);
-    }
-    return { kill: () => {} };
+    proc.kill("SIGTERM");
+  } catch {
+    // Process may already be dead
+    return;
   }
+  const timer = window.setTimeout(() => {
+    if (proc.exitCode !== null || proc.signalCode !== null) return;
+    try {
+      proc.kill("SIGKILL");
+    } catch {
+      // Process may already be dead
+    }
+  }, KILL_GRACE_MS);
+  proc.once("exit", () => window.clearTimeout(timer));
+}
 
+/** Splits stdout into lines; returns a function that flushes the trailing partial line. */
+export function readLines(proc: ChildProcess, onLine: (line: string) => void): () => void {
   let buffer = "";
-
   proc.stdout?.on("data", (chunk: Buffer) => {
     buffer += chunk.toString("utf8");
     const lines = buffer.split("\n");
     buffer = lines.pop() ?? "";
     for (const line of lines) {
-      parseAndDispatch(line, callbacks);
+      onLine(line);
     }
   });
+  return () => {
+    if (buffer.trim()) onLine(buffer);
+    buffer = "";
+  };
+}
 
-  proc.stderr?.on("data", (chunk: Buffer) => {
-    const text = chunk.toString("utf8").trim();
-    const lower = text.toLowerCase();
-    if (lower.includes("error") || lower.includes("failed")) {
-      callbacks.onError(text);
-    }
+/**
+ * Runs one prompt in its own CLI process, retrying transient failures. Unless
+ * the run is killed, exactly one of onDone and onError is called, however the
+ * process ends. A retry resumes the session the failed attempt started, so
+ * Claude sees whatever it had already done.
+ */
+export function runClaude(options: RunClaudeOptions): ClaudeRunner {
+  let sessionId = options.sessionId;
+  return withRetry(options.settings, options.callbacks, (callbacks) =>
+    runClaudeOnce({
+      ...options,
+      sessionId,
+      callbacks: {
+        ...callbacks,
+        onSystemInit: (id, tools) => {
+          sessionId = id;
+          callbacks.onSystemInit(id, tools);
+        },
+      },
+    })
+  );
+}
+
+function runClaudeOnce(options: RunClaudeOptions): ClaudeRunner {
+  const { prompt, vaultPath, sessionId } = options;
+
+  const stderr = new StderrBuffer();
+  let settled = false;
+  const { onThinking, onRetry, onPermissionRequest, onBeforeToolUse } = options.callbacks;
+  // Once the run has ended, timed out or been killed, output still on its way is dropped
+  const callbacks: ClaudeRunnerCallbacks = {
+    onText: (text) => {
+      if (!settled) options.callbacks.onText(text);
+    },
+    onThinking: onThinking && ((text) => {
+      if (!settled) onThinking(text);
+    }),
+    onToolUse: (event) => {
+      if (!settled) options.callbacks.onToolUse(event);
+    },
+    onToolResult: (event) => {
+      if (!settled) options.callbacks.onToolResult(event);
+    },
+    onSystemInit: (id, tools) => {
+      if (!settled) options.callbacks.onSystemInit(id, tools);
+    },
+    onRetry: onRetry && ((retry) => {
+      if (!settled) onRetry(retry);
+    }),
+    onPermissionRequest:
+      onPermissionRequest &&
+      ((request) => (settled ? Promise.resolve<PermissionDecision>("deny") : onPermissionRequest(request))),
+    onBeforeToolUse: onBeforeToolUse && ((request) => {
+      if (!settled) onBeforeToolUse(request);
+    }),
+    onDone: (usage) => {
+      if (settled) return;
+      settled = true;
+      options.callbacks.onDone(usage);
+    },
+    onError: (error) => {
+      if (settled) return;
+      settled = true;
+      options.callbacks.onError({ ...error, stderr: error.stderr || stderr.toString() });
+    },
+  };
+
+  let launch: ClaudeLaunch;
+  try {
+    launch = prepareLaunch({ ...options, getCallbacks: () => callbacks });
+  } catch (err) {
+    callbacks.onError(
+      claudeError("failed", `Failed to prepare permission rules: ${(err as Error).message}`)
+    );
+    return { kill: () => {} };
+  }
+  const { settings, cleanup } = launch;
+
+  const args = ["-p", prompt, ...launch.args];
+  if (sessionId) {
+    args.push("--resume", sessionId);
+  }
+
+  let proc: ChildProcess;
+  try {
+    proc = spawnClaude(settings, args, vaultPath, "ignore");
+  } catch (err) {
+    callbacks.onError(describeSpawnError(err as NodeJS.ErrnoException, settings));
+    cleanup();
+    return { kill: () => {} };
+  }
+  const transcript = options.transcripts?.begin(settings.claudeBinaryPath, args, vaultPath, prompt) ?? null;
+
+  const stream = newStreamState();
+  const flush = readLines(proc, (line) => {
+    const outcome = parseAndDispatch(line, callbacks, stream, settings.model);
+    transcript?.stdout(line, outcome);
   });
 
+  let timeoutTimer: number | null = null;
+  if (settings.timeoutMinutes > 0) {
+    timeoutTimer = window.setTimeout(() => {
+      callbacks.onError(timeoutError(settings.timeoutMinutes));
+      terminateProcess(proc);
+    }, settings.timeoutMinutes * 60 * 1000);
+  }
+  const clearTimeoutTimer = () => {
+    if (timeoutTimer !== null) {
+      window.clearTimeout(timeoutTimer);
+      timeoutTimer = null;
+    }
+  };
+
+  // Warnings land on stderr too, so it only explains a failure once the process ends
+  proc.stderr?.on("data", (chunk: Buffer) => stderr.append(chunk));
+
   proc.on("error", (err: NodeJS.ErrnoException) => {
+    cleanup();
     if (err.code === "ENOENT") {
-      callbacks.onError(
-        `Claude binary not found at "${settings.claudeBinaryPath}". ` +
-          `Please check the binary path in Claudian settings.`
-      );
+      callbacks.onError(describeSpawnError(err, settings));
     } else {
-      callbacks.onError(`Process error: ${err.message}`);
+      callbacks.onError(claudeError("failed", `Process error: ${err.message}`));
     }
   });
 
-  proc.on("close", (code: number | null) => {
+  proc.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
+    clearTimeoutTimer();
+    cleanup();
     // Flush any remaining buffer content
-    if (buffer.trim()) {
-      parseAndDispatch(buffer, callbacks);
-    }
-    // If process exited with non-zero and we haven't called onDone yet,
-    // it means something went wrong silently
-    if (code !== 0 && code !== null) {
-      // Only emit if not already handled via result event
-    }
+    flush();
+    // Without a result event the exit code, signal and stderr are all we have
+    callbacks.onError(exitError(code, signal, stderr.toString()));
   });
+  // After the close handler above, so the flushed last line is recorded too
+  transcript?.attach(proc);
 
   return {
     kill: () => {
-      try {
-        proc.kill("SIGTERM");
-      } catch {
-        // Process may already be dead
-      }
+      settled = true;
+      clearTimeoutTimer();
+      cleanup();
+      terminateProcess(proc);
     },
   };
 }
@@ -0,0 +1,259 @@
+import type { ChildProcess } from "child_process";
+import type { ClaudianSettings } from "./settings";
+import type { PermissionBridge } from "./permission-bridge";
+import {
+  ClaudeLaunch,
+  ClaudeRunner,
+  ClaudeRunnerCallbacks,
+  RunUsage,
+  StderrBuffer,
+  claudeError,
+  describeSpawnError,
+  exitError,
+  newStreamState,
+  parseAndDispatch,
+  prepareLaunch,
+  readLines,
+  spawnClaude,
+  terminateProcess,
+  timeoutError,
+} from "./claude-runner";
+import { withRetry } from "./retry";
+import type { TranscriptRecorder, TranscriptStore } from "./transcripts";
+
+// An idle chat process is shut down after this long; the next message resumes it
+const IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+const USAGE_COUNTERS = [
+  "turns",
+  "costUsd",
+  "durationMs",
+  "inputTokens",
+  "outputTokens",
+  "cacheReadTokens",
+  "cacheCreationTokens",
+] as const;
+
+export interface ClaudeSessionOptions {
+  vaultPath: string;
+  currentFilePath: string | null;
+  settings: ClaudianSettings;
+  sessionId?: string;
+  // Branch off sessionId into a new session instead of continuing it, keeping
+  // its history only up to this assistant message
+  forkAtMessage?: string;
+  permissionBridge?: PermissionBridge;
+  attachedPaths?: string[];
+  transcripts?: TranscriptStore;
+}
+
+export interface ClaudeSession {
+  // Sends one user message; the returned runner's kill() cancels that turn
+  send: (prompt: string, callbacks: ClaudeRunnerCallbacks) => ClaudeRunner;
+  close: () => void;
+}
+
+/**
+ * Keeps a single `claude -p --input-format stream-json` process alive across
+ * chat turns, writing each user message to its stdin. If the process crashes,
+ * idles out or is stopped, the next message starts a new one with --resume so
+ * the conversation carries on. With forkAtMessage the first process starts a
+ * new session from part of an existing one, for an edited or regenerated turn.
+ */
+export function startClaudeSession(options: ClaudeSessionOptions): ClaudeSession {
+  const { vaultPath } = options;
+
+  let sessionId = options.sessionId ?? null;
+  // Cleared once the forked session has started, so a restart resumes the fork
+  let forkAtMessage = options.forkAtMessage ?? null;
+  let proc: ChildProcess | null = null;
+  let launch: ClaudeLaunch | null = null;
+  let active: ClaudeRunnerCallbacks | null = null;
+  let idleTimer: number | null = null;
+  // Stops a turn that runs past the time limit
+  let turnTimer: number | null = null;
+  let closed = false;
+  // The result event's usage covers the whole process, not just the turn
+  let processUsage: RunUsage | null = null;
+  let stderr = new StderrBuffer();
+  // Debug transcript of the current process, if recording
+  let transcript: TranscriptRecorder | null = null;
+
+  const clearIdleTimer = () => {
+    if (idleTimer !== null) {
+      window.clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+  };
+
+  const clearTurnTimer = () => {
+    if (turnTimer !== null) {
+      window.clearTimeout(turnTimer);
+      turnTimer = null;
+    }
+  };
+
+  const stopProcess = () => {
+    clearIdleTimer();
+    clearTurnTimer();
+    const current = proc;
+    proc = null;
+    launch?.cleanup();
+    launch = null;
+    if (current) terminateProcess(current);
+  };
+
+  const endTurn = () => {
+    active = null;
+    clearIdleTimer();
+    clearTurnTimer();
+    idleTimer = window.setTimeout(stopProcess, IDLE_TIMEOUT_MS);
+  };
+
+  // The turn's share of the process totals in a result event
+  const turnUsage = (usage: RunUsage): RunUsage => {
+    const turn = { ...usage };
+    for (const key of USAGE_COUNTERS) turn[key] = Math.max(0, usage[key] - (processUsage?.[key] ?? 0));
+    processUsage = usage;
+    return turn;
+  };
+
+  // Routes stream events to whichever turn is in progress
+  const turnCallbacks: ClaudeRunnerCallbacks = {
+    onText: (text) => active?.onText(text),
+    onThinking: (text) => active?.onThinking?.(text),
+    onToolUse: (event) => active?.onToolUse(event),
+    onToolResult: (event) => active?.onToolResult(event),
+    onSystemInit: (id, tools) => {
+      sessionId = id;
+      forkAtMessage = null;
+      active?.onSystemInit(id, tools);
+    },
+    onDone: (usage) => {
+      const callbacks = active;
+      const turn = turnUsage(usage);
+      endTurn();
+      callbacks?.onDone(turn);
+    },
+    onError: (error) => {
+      const callbacks = active;
+      const usage = error.usage && turnUsage(error.usage);
+      endTurn();
+      callbacks?.onError({ ...error, usage, stderr: error.stderr || stderr.toString() });
+    },
+  };
+
+  const startProcess = (): ChildProcess => {
+    launch = prepareLaunch({ ...options, getCallbacks: () => active });
+    processUsage = null;
+    stderr = new StderrBuffer();
+    const args = ["-p", "--input-format", "stream-json", ...launch.args];
+    if (sessionId) {
+      args.push("--resume", sessionId);
+      if (forkAtMessage) args.push("--resume-session-at", forkAtMessage, "--fork-session");
+    }
+
+    const settings = launch.settings;
+    const child = spawnClaude(settings, args, vaultPath, "pipe");
+    const childTranscript =
+      options.transcripts?.begin(settings.claudeBinaryPath, args, vaultPath, null) ?? null;
+    transcript = childTranscript;
+    const stream = newStreamState();
+    const flush = readLines(child, (line) => {
+      const outcome = parseAndDispatch(line, turnCallbacks, stream, settings.model);
+      childTranscript?.stdout(line, outcome);
+    });
+
+    // Kept for the error details; a failed turn ends with an error result or the process exiting
+    const childStderr = stderr;
+    child.stderr?.on("data", (chunk: Buffer) => childStderr.append(chunk));
+
+    // A write after the process died surfaces here; "close" reports the failure
+    child.stdin?.on("error", () => {});
+
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      if (proc !== child) return;
+      stopProcess();
+      if (active) turnCallbacks.onError(describeSpawnError(err, settings));
+    });
+
+    child.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
+      flush();
+      if (proc !== child) return;
+      stopProcess();
+      if (active) {
+        const error = exitError(code, signal, childStderr.toString());
+        turnCallbacks.onError({
+          ...error,
+          message: `${error.message}\n\nSend your message again to resume the conversation.`,
+        });
+      }
+    });
+    // After the close handler above, so the flushed last line is recorded too
+    childTranscript?.attach(child);
+
+    return child;
+  };
+
+  const sendTurn = (prompt: string, callbacks: ClaudeRunnerCallbacks): ClaudeRunner => {
+    if (closed || active) {
+      callbacks.onError(claudeError("failed", "Claude is still busy with the previous message."));
+      return { kill: () => {} };
+    }
+
+    clearIdleTimer();
+    active = callbacks;
+    try {
+      proc ??= startProcess();
+    } catch (err) {
+      stopProcess();
+      active = null;
+      const error = err as NodeJS.ErrnoException;
+      callbacks.onError(
+        error.code
+          ? describeSpawnError(error, options.settings)
+          : claudeError("failed", `Failed to start Claude: ${error.message}`)
+      );
+      return { kill: () => {} };
+    }
+
+    const message = {
+      type: "user",
+      message: { role: "user", content: [{ type: "text", text: prompt }] },
+    };
+    const line = JSON.stringify(message);
+    transcript?.stdin(line);
+    proc.stdin?.write(line + "\n");
+
+    const { timeoutMinutes } = options.settings;
+    if (timeoutMinutes > 0) {
+      turnTimer = window.setTimeout(() => {
+        if (active !== callbacks) return;
+        // The process can't abort one turn, so it goes; the next message resumes the session
+        stopProcess();
+        turnCallbacks.onError(timeoutError(timeoutMinutes));
+      }, timeoutMinutes * 60 * 1000);
+    }
+
+    return {
+      kill: () => {
+        if (active !== callbacks) return;
+        // There is no way to abort a single turn, so restart on the next message
+        active = null;
+        stopProcess();
+      },
+    };
+  };
+
+  return {
+    // A retried turn sends the message again, to a new process if the old one died
+    send: (prompt, callbacks) =>
+      withRetry(options.settings, callbacks, (turn) => sendTurn(prompt, turn)),
+
+    close: () => {
+      closed = true;
+      active = null;
+      stopProcess();
+    },
+  };
+}
@@ -0,0 +1,33 @@
+export interface DataStore<T> {
+  load: () => Promise<T>;
+  // Reloads the data, applies `change` and saves it, once every earlier change is saved
+  modify: <R>(change: (data: T) => R) => Promise<R>;
+}
+
+/**
+ * The plugin's data.json, shared by the settings, the usage ledger, the
+ * automation history and the chat history migration. Every write goes through
+ * `modify`, one at a time, so two of them finishing together can't each save
+ * over the other's change.
+ */
+export function createDataStore<T extends object>(
+  load: () => Promise<T | null>,
+  save: (data: T) => Promise<void>
+): DataStore<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+  const read = async () => (await load()) ?? ({} as T);
+
+  return {
+    load: read,
+    modify: (change) => {
+      const result = queue.then(async () => {
+        const data = await read();
+        const value = change(data);
+        await save(data);
+        return value;
+      });
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { App, Modal, Setting } from "obsidian";
+
+/** Asks for a single line of text; resolves null when dismissed. */
+export class TextInputModal extends Modal {
+  private value: string;
+  private resolve: ((value: string | null) => void) | null = null;
+
+  constructor(
+    app: App,
+    private title: string,
+    initialValue: string,
+    private submitLabel = "Save"
+  ) {
+    super(app);
+    this.value = initialValue;
+  }
+
+  openAndWait(): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+    new Setting(this.contentEl).addText((text) => {
+      text.setValue(this.value).onChange((value) => {
+        this.value = value;
+      });
+      text.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          this.submit(this.value);
+        }
+      });
+      window.setTimeout(() => text.inputEl.select(), 0);
+    });
+    new Setting(this.contentEl).addButton((button) =>
+      button
+        .setButtonText(this.submitLabel)
+        .setCta()
+        .onClick(() => this.submit(this.value))
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.submit(null);
+  }
+
+  private submit(value: string | null): void {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(value);
+    if (value !== null) this.close();
+  }
+}
+
+/** Yes/no confirmation; resolves false when dismissed. */
+export class ConfirmModal extends Modal {
+  private resolve: ((confirmed: boolean) => void) | null = null;
+
+  constructor(
+    app: App,
+    private title: string,
+    private message: string,
+    private confirmLabel = "Confirm"
+  ) {
+    super(app);
+  }
+
+  openAndWait(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+    this.contentEl.createEl("p", { text: this.message });
+    new Setting(this.contentEl)
+      .addButton((button) => button.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((button) =>
+        button
+          .setButtonText(this.confirmLabel)
+          .setWarning()
+          .onClick(() => {
+            this.settle(true);
+            this.close();
+          })
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.settle(false);
+  }
+
+  private settle(confirmed: boolean): void {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(confirmed);
+  }
+}
@@ -0,0 +1,168 @@
+export type DiffChunk =
+  | { type: "equal"; lines: string[] }
+  | { type: "change"; removed: string[]; added: string[] };
+
+type DiffOp = "=" | "-" | "+";
+
+// Lines keep their trailing "\n" so joining chunks reproduces the exact text
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+// Myers' O(ND) shortest edit script between two line arrays, in linear space:
+// each range is split at the middle of its edit path and both halves diffed in turn
+function shortestEditScript(a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  const repeat = (op: DiffOp, count: number) => {
+    for (let i = 0; i < count; i++) ops.push(op);
+  };
+
+  const diffRange = (aLo: number, aHi: number, bLo: number, bHi: number): void => {
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+      ops.push("=");
+      aLo++;
+      bLo++;
+    }
+    let common = 0;
+    while (aHi > aLo && bHi > bLo && a[aHi - 1] === b[bHi - 1]) {
+      aHi--;
+      bHi--;
+      common++;
+    }
+
+    const split = aLo === aHi || bLo === bHi ? null : middleOfPath(a, aLo, aHi, b, bLo, bHi);
+    if (split) {
+      diffRange(aLo, split.x, bLo, split.y);
+      diffRange(split.x, aHi, split.y, bHi);
+    } else {
+      // Nothing in common
+      repeat("-", aHi - aLo);
+      repeat("+", bHi - bLo);
+    }
+    repeat("=", common);
+  };
+
+  diffRange(0, a.length, 0, b.length);
+  return ops;
+}
+
+/**
+ * Where the shortest edit path between a[aLo..aHi] and b[bLo..bHi] crosses
+ * its middle, found by following it from both ends at once. Null when the
+ * ranges have no line in common.
+ */
+function middleOfPath(
+  a: string[],
+  aLo: number,
+  aHi: number,
+  b: string[],
+  bLo: number,
+  bHi: number
+): { x: number; y: number } | null {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+  // Furthest x reached on each diagonal, from the start and from the end
+  const forward = new Array<number>(size).fill(-1);
+  const backward = new Array<number>(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet while going forward, otherwise going back
+  const meetForward = delta % 2 !== 0;
+  // Diagonals that ran off the edge of the grid are skipped from then on
+  let kStart = 0;
+  let kEnd = 0;
+  let rStart = 0;
+  let rEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + kStart; k <= d - kEnd; k += 2) {
+      const i = offset + k;
+      let x =
+        k === -d || (k !== d && forward[i - 1] < forward[i + 1]) ? forward[i + 1] : forward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[i] = x;
+      if (x > n) kEnd += 2;
+      else if (y > m) kStart += 2;
+      else if (meetForward) {
+        const r = offset + delta - k;
+        if (r >= 0 && r < size && backward[r] !== -1 && x >= n - backward[r]) {
+          return { x: aLo + x, y: bLo + y };
+        }
+      }
+    }
+
+    for (let k = -d + rStart; k <= d - rEnd; k += 2) {
+      const i = offset + k;
+      let x =
+        k === -d || (k !== d && backward[i - 1] < backward[i + 1]) ? backward[i + 1] : backward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[i] = x;
+      if (x > n) rEnd += 2;
+      else if (y > m) rStart += 2;
+      else if (!meetForward) {
+        const f = offset + delta - k;
+        if (f >= 0 && f < size && forward[f] !== -1) {
+          const fx = forward[f];
+          if (fx >= n - x) return { x: aLo + fx, y: bLo + fx - (f - offset) };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export function diffLines(oldText: string, newText: string): DiffChunk[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const ops = shortestEditScript(a, b);
+
+  const chunks: DiffChunk[] = [];
+  let ai = 0;
+  let bi = 0;
+  for (const op of ops) {
+    const last = chunks[chunks.length - 1];
+    if (op === "=") {
+      if (last?.type === "equal") last.lines.push(a[ai]);
+      else chunks.push({ type: "equal", lines: [a[ai]] });
+      ai++;
+      bi++;
+    } else {
+      const change =
+        last?.type === "change" ? last : { type: "change" as const, removed: [], added: [] };
+      if (change !== last) chunks.push(change);
+      if (op === "-") change.removed.push(a[ai++]);
+      else change.added.push(b[bi++]);
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Rebuilds a file from its diff, keeping the new lines of every change chunk
+ * except the rejected ones (indexed by their order among change chunks).
+ */
+export function mergeChunks(chunks: DiffChunk[], rejected: Set<number>): string {
+  let out = "";
+  let changeIndex = 0;
+  for (const chunk of chunks) {
+    if (chunk.type === "equal") {
+      out += chunk.lines.join("");
+    } else {
+      out += (rejected.has(changeIndex) ? chunk.removed : chunk.added).join("");
+      changeIndex++;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,142 @@
+import type { Editor, EditorPosition } from "obsidian";
+
+// Keeps a huge section from swamping the system prompt
+const MAX_SECTION_CHARS = 4000;
+
+export interface EditorContext {
+  selection: string;
+  // 1-based, as shown in the editor gutter
+  cursorLine: number;
+  lineText: string;
+  // Heading the cursor sits under, e.g. "## Goals"; null above the first heading
+  heading: string | null;
+  // Text of that heading's section (or of the note up to the first heading)
+  section: string;
+}
+
+/** Where the selection was when the modal opened, for writing a result back. */
+export interface SelectionTarget {
+  editor: Editor;
+  from: EditorPosition;
+  to: EditorPosition;
+  original: string;
+}
+
+export function captureEditorContext(editor: Editor): EditorContext {
+  const cursor = editor.getCursor();
+  const lines = editor.getValue().split("\n");
+  const { heading, start, end } = findSection(lines, cursor.line);
+
+  let section = lines.slice(start, end).join("\n").trim();
+  if (section.length > MAX_SECTION_CHARS) {
+    section = section.slice(0, MAX_SECTION_CHARS) + "\n…(truncated)";
+  }
+
+  return {
+    selection: editor.getSelection(),
+    cursorLine: cursor.line + 1,
+    lineText: lines[cursor.line] ?? "",
+    heading,
+    section,
+  };
+}
+
+export function captureSelectionTarget(editor: Editor): SelectionTarget | null {
+  const original = editor.getSelection();
+  if (!original) return null;
+  return {
+    editor,
+    from: editor.getCursor("from"),
+    to: editor.getCursor("to"),
+    original,
+  };
+}
+
+/**
+ * Replaces the captured selection with `text`, keeping a trailing newline if
+ * the selection had one. Refuses (returns false) when the selected text has
+ * been edited since, rather than overwriting the wrong range.
+ */
+export function replaceSelection(target: SelectionTarget, text: string): boolean {
+  const { editor, from, to, original } = target;
+  const replacement = text.trim() + (original.endsWith("\n") ? "\n" : "");
+  try {
+    if (editor.getRange(from, to) !== original) return false;
+    editor.replaceRange(replacement, from, to);
+    return true;
+  } catch {
+    // The note was closed or its editor detached
+    return false;
+  }
+}
+
+// Finds the heading section containing `line`, ignoring "#" lines inside code fences
+function findSection(
+  lines: string[],
+  line: number
+): { heading: string | null; start: number; end: number } {
+  const headings: Array<{ line: number; level: number }> = [];
+  let inFence = false;
+  lines.forEach((text, i) => {
+    if (/^\s*(```|~~~)/.test(text)) inFence = !inFence;
+    if (inFence) return;
+    const match = /^(#{1,6})\s+\S/.exec(text);
+    if (match) headings.push({ line: i, level: match[1].length });
+  });
+
+  const owner = [...headings].reverse().find((h) => h.line <= line);
+  if (!owner) {
+    return { heading: null, start: 0, end: headings[0]?.line ?? lines.length };
+  }
+
+  const next = headings.find((h) => h.line > owner.line && h.level <= owner.level);
+  return {
+    heading: lines[owner.line].trim(),
+    start: owner.line,
+    end: next?.line ?? lines.length,
+  };
+}
+
+export function buildEditorContextInstructions(
+  context: EditorContext,
+  replaceSelection: boolean
+): string {
+  const lines: string[] = [];
+
+  lines.push("## Editor Context");
+  lines.push("");
+  lines.push(`Cursor is on line ${context.cursorLine}: ${context.lineText.trim() || "(empty line)"}`);
+
+  if (context.selection) {
+    lines.push("");
+    lines.push("The user has selected this text in the active file:");
+    lines.push("<selection>");
+    lines.push(context.selection);
+    lines.push("</selection>");
+  }
+
+  if (context.section) {
+    lines.push("");
+    lines.push(
+      context.heading
+        ? `The cursor is in the section under "${context.heading}":`
+        : "The cursor is above the first heading, in this part of the note:"
+    );
+    lines.push("<section>");
+    lines.push(context.section);
+    lines.push("</section>");
+  }
+
+  if (replaceSelection) {
+    lines.push("");
+    lines.push("## Output");
+    lines.push("");
+    lines.push(
+      "Your final reply will replace the selected text in the editor verbatim. " +
+      "Respond with only the replacement text — no preamble, explanation, or code fences " +
+      "around it — and do not edit any files yourself."
+    );
+  }
+
+  return lines.join("\n");
+}
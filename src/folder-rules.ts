@@ -0,0 +1,120 @@
+export type FolderRuleOperation = "read" | "list" | "edit" | "create";
+export type FolderRuleEffect = "allow" | "deny";
+
+export interface FolderRule {
+  // Vault-relative glob, e.g. "Projects/**" or "Daily/*.md"
+  pattern: string;
+  operation: FolderRuleOperation;
+  effect: FolderRuleEffect;
+}
+
+export const FOLDER_RULE_OPERATIONS: Record<FolderRuleOperation, string> = {
+  read: "Read",
+  list: "List",
+  edit: "Edit",
+  create: "Create",
+};
+
+export interface CompiledGlob {
+  pattern: string;
+  regex: RegExp;
+  // Leading segments without wildcards, e.g. "Projects" for "Projects/*.md"
+  literalPrefix: string;
+  // Deepest path (in segments) the glob can match; Infinity with "**"
+  maxDepth: number;
+  // True for "dir/**" style globs that match everything below their prefix
+  coversSubtree: boolean;
+}
+
+// Vaults on macOS and Windows usually live on case-insensitive filesystems,
+// where "private/a.md" opens the same note as "Private/a.md"
+export function pathsIgnoreCase(): boolean {
+  return process.platform === "darwin" || process.platform === "win32";
+}
+
+export function normalizeGlob(pattern: string): string {
+  let p = pattern.trim().replace(/\\/g, "/").replace(/^(\.\/|\/)+/, "");
+  if (p.endsWith("/")) p += "**";
+  return p;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    if (pattern.startsWith("**/", i)) {
+      source += "(?:.*/)?";
+      i += 3;
+    } else if (pattern.startsWith("/**", i) && i + 3 === pattern.length) {
+      // "dir/**" also matches "dir" itself
+      source += "(?:/.*)?";
+      i += 3;
+    } else if (pattern.startsWith("**", i)) {
+      source += ".*";
+      i += 2;
+    } else if (ch === "*") {
+      source += "[^/]*";
+      i++;
+    } else if (ch === "?") {
+      source += "[^/]";
+      i++;
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      i++;
+    }
+  }
+  return new RegExp(`^${source}$`, pathsIgnoreCase() ? "i" : "");
+}
+
+export function compileGlob(pattern: string): CompiledGlob {
+  const normalized = normalizeGlob(pattern);
+  const segments = normalized.split("/");
+  const firstWild = segments.findIndex((s) => /[*?]/.test(s));
+  const literal = firstWild === -1 ? segments : segments.slice(0, firstWild);
+  return {
+    pattern: normalized,
+    regex: globToRegExp(normalized),
+    literalPrefix: literal.join("/"),
+    maxDepth: normalized.includes("**") ? Infinity : segments.length,
+    coversSubtree: firstWild === segments.length - 1 && segments[firstWild] === "**",
+  };
+}
+
+export function isWithin(relativePath: string, prefix: string): boolean {
+  if (pathsIgnoreCase()) {
+    relativePath = relativePath.toLowerCase();
+    prefix = prefix.toLowerCase();
+  }
+  return prefix === "" || relativePath === prefix || relativePath.startsWith(prefix + "/");
+}
+
+/**
+ * Resolves the folder rules for one operation on a vault-relative path.
+ * A matching deny always wins over a matching allow; null means no rule applies.
+ */
+export function matchFolderRules(
+  rules: FolderRule[],
+  operation: FolderRuleOperation,
+  relativePath: string
+): FolderRuleEffect | null {
+  let result: FolderRuleEffect | null = null;
+  for (const rule of rules) {
+    if (rule.operation !== operation || !normalizeGlob(rule.pattern)) continue;
+    if (!globToRegExp(normalizeGlob(rule.pattern)).test(relativePath)) continue;
+    if (rule.effect === "deny") return "deny";
+    result = "allow";
+  }
+  return result;
+}
+
+export function rulesFor(
+  rules: FolderRule[],
+  operation: FolderRuleOperation,
+  effect: FolderRuleEffect
+): string[] {
+  return rules
+    .filter((r) => r.operation === operation && r.effect === effect)
+    .map((r) => normalizeGlob(r.pattern))
+    .filter((p) => p.length > 0);
+}
@@ -0,0 +1,156 @@
+import * as path from "path";
+import { App, TFile, moment, normalizePath } from "obsidian";
+import type { ChatTurnData } from "./chat-storage";
+import type { FileSnapshot } from "./snapshots";
+
+// What a saved note says about where its text came from
+export interface NoteMetadata {
+  date: number;
+  model: string;
+  sessionId: string | null;
+  costUsd: number;
+  // Vault-relative paths Claude edited or created
+  changedPaths: string[];
+}
+
+/** Vault-relative paths of the files a run changed, from its undo snapshots. */
+export function changedPathsOf(vaultPath: string, snapshots: FileSnapshot[]): string[] {
+  return snapshots.map((s) => path.relative(vaultPath, s.absolutePath).split(path.sep).join("/"));
+}
+
+// JSON strings are valid YAML scalars, and quote anything YAML would misread
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function buildFrontmatter(metadata: NoteMetadata): string[] {
+  const lines = [
+    "---",
+    `date: ${moment(metadata.date).format("YYYY-MM-DDTHH:mm:ss")}`,
+    `model: ${yamlString(metadata.model)}`,
+    `session_id: ${metadata.sessionId ? yamlString(metadata.sessionId) : "null"}`,
+    `cost_usd: ${Number(metadata.costUsd.toFixed(4))}`,
+  ];
+  if (metadata.changedPaths.length > 0) {
+    lines.push("files:");
+    for (const changed of metadata.changedPaths) {
+      lines.push(`  - ${yamlString(`[[${changed.replace(/\.md$/, "")}]]`)}`);
+    }
+  } else {
+    lines.push("files: []");
+  }
+  lines.push("---");
+  return lines;
+}
+
+function callout(type: string, title: string, markdown: string): string[] {
+  const body = markdown.trim() || "*No reply.*";
+  return [`> [!${type}] ${title}`, ...body.split("\n").map((line) => (line ? `> ${line}` : ">"))];
+}
+
+/** The user's message and Claude's reply as a pair of callouts. */
+export function buildTurnCallouts(userText: string, claudeMarkdown: string): string[] {
+  return [...callout("question", "You", userText), "", ...callout("note", "Claude", claudeMarkdown)];
+}
+
+/** A whole conversation, one pair of callouts per turn. */
+export function buildConversationNote(title: string, turns: ChatTurnData[], metadata: NoteMetadata): string {
+  const lines = [...buildFrontmatter(metadata), "", `# ${title}`];
+  for (const turn of turns) {
+    lines.push("");
+    lines.push(...buildTurnCallouts(turn.userText, turn.claudeMarkdown));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** A quick action's prompt and output. */
+export function buildQuickActionNote(prompt: string, markdown: string, metadata: NoteMetadata): string {
+  const lines = [
+    ...buildFrontmatter(metadata),
+    "",
+    `# Qlaude quick action ${moment(metadata.date).format("YYYY-MM-DD HH:mm")}`,
+    "",
+    ...buildTurnCallouts(prompt, markdown),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/** What a conversation's turns add up to, for its note's frontmatter. */
+export function conversationMetadata(
+  turns: ChatTurnData[],
+  sessionId: string | null,
+  fallbackModel: string
+): NoteMetadata {
+  const changedPaths: string[] = [];
+  for (const turn of turns) {
+    for (const changed of turn.changedPaths ?? []) {
+      if (!changedPaths.includes(changed)) changedPaths.push(changed);
+    }
+  }
+  const last = turns[turns.length - 1];
+  return {
+    date: last?.finishedAt ?? Date.now(),
+    model: [...turns].reverse().find((t) => t.model)?.model ?? fallbackModel,
+    sessionId,
+    costUsd: turns.reduce((sum, t) => sum + (t.costUsd ?? 0), 0),
+    changedPaths,
+  };
+}
+
+// Characters Obsidian doesn't allow in file names
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|#^[\]]/g, "-").trim() || "Untitled";
+}
+
+async function ensureFolder(app: App, dir: string): Promise<void> {
+  if (dir !== "/" && !app.vault.getAbstractFileByPath(dir)) {
+    await app.vault.createFolder(dir);
+  }
+}
+
+/** Creates a note named `baseName` in `folder`, adding a number if the name is taken. */
+export async function createUniqueNote(
+  app: App,
+  folder: string,
+  baseName: string,
+  content: string
+): Promise<TFile> {
+  const dir = normalizePath(folder.trim() || "/");
+  await ensureFolder(app, dir);
+  const base = safeFileName(baseName);
+  const prefix = dir === "/" ? "" : `${dir}/`;
+  let notePath = `${prefix}${base}.md`;
+  for (let n = 2; app.vault.getAbstractFileByPath(notePath); n++) {
+    notePath = `${prefix}${base} ${n}.md`;
+  }
+  return app.vault.create(notePath, content);
+}
+
+/**
+ * Appends one chat turn to the log note at `notePath`, creating the note (and
+ * its folder) on first use.
+ */
+export async function appendToChatLog(
+  app: App,
+  notePath: string,
+  conversationName: string,
+  turn: ChatTurnData
+): Promise<void> {
+  let normalized = normalizePath(notePath.trim());
+  if (!normalized.endsWith(".md")) normalized += ".md";
+  const at = moment(turn.finishedAt ?? Date.now()).format("YYYY-MM-DD HH:mm");
+  const entry = [
+    `## ${conversationName} · ${at}`,
+    "",
+    ...buildTurnCallouts(turn.userText, turn.claudeMarkdown),
+  ].join("\n");
+
+  const existing = app.vault.getAbstractFileByPath(normalized);
+  if (existing instanceof TFile) {
+    await app.vault.process(existing, (data) => `${data.replace(/\n*$/, "")}${data.trim() ? "\n\n" : ""}${entry}\n`);
+    return;
+  }
+  const slash = normalized.lastIndexOf("/");
+  if (slash > 0) await ensureFolder(app, normalized.slice(0, slash));
+  await app.vault.create(normalized, `${entry}\n`);
+}
@@ -0,0 +1,165 @@
+import { App, TFile, prepareFuzzySearch } from "obsidian";
+
+const MAX_SUGGESTIONS = 8;
+
+// "@query" at a word start, or an unclosed "[[query", right before the caret
+const TRIGGER = /(?:^|\s)(@|\[\[)([^\s@[\]|#]*)$/;
+
+/**
+ * Note autocomplete for a plain textarea. Typing "@" or "[[" lists vault notes
+ * by fuzzy match; picking one replaces the typed query with a [[link]] and
+ * reports the note through onPick. The list lives on the document body so it
+ * is not clipped by the modal or sidebar it is opened from.
+ */
+export class NoteSuggest {
+  private suggestEl: HTMLElement | null = null;
+  private items: TFile[] = [];
+  private selected = 0;
+  // Offset of the "@" or "[[" being completed
+  private triggerStart: number | null = null;
+
+  constructor(
+    private app: App,
+    private textarea: HTMLTextAreaElement,
+    private onPick: (file: TFile) => void
+  ) {
+    textarea.addEventListener("input", () => this.update());
+    textarea.addEventListener("blur", () => this.close());
+  }
+
+  get isOpen(): boolean {
+    return this.suggestEl !== null;
+  }
+
+  /** Handles navigation keys while the list is open; returns true if the key was used. */
+  handleKeydown(e: KeyboardEvent): boolean {
+    if (!this.isOpen) return false;
+    switch (e.key) {
+      case "ArrowDown":
+        this.select((this.selected + 1) % this.items.length);
+        break;
+      case "ArrowUp":
+        this.select((this.selected - 1 + this.items.length) % this.items.length);
+        break;
+      case "Enter":
+      case "Tab":
+        if (e.ctrlKey || e.metaKey) return false;
+        this.pick(this.items[this.selected]);
+        break;
+      case "Escape":
+        this.close();
+        break;
+      default:
+        return false;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    return true;
+  }
+
+  close(): void {
+    this.suggestEl?.remove();
+    this.suggestEl = null;
+    this.items = [];
+    this.triggerStart = null;
+  }
+
+  private update(): void {
+    const caret = this.textarea.selectionStart;
+    if (caret !== this.textarea.selectionEnd) {
+      this.close();
+      return;
+    }
+    const match = TRIGGER.exec(this.textarea.value.slice(0, caret));
+    if (!match) {
+      this.close();
+      return;
+    }
+
+    this.triggerStart = caret - match[2].length - match[1].length;
+    this.items = this.search(match[2]);
+    if (this.items.length === 0) {
+      this.suggestEl?.remove();
+      this.suggestEl = null;
+      return;
+    }
+    this.render();
+  }
+
+  private search(query: string): TFile[] {
+    const files = this.app.vault.getMarkdownFiles();
+    if (!query) {
+      return files.sort((a, b) => b.stat.mtime - a.stat.mtime).slice(0, MAX_SUGGESTIONS);
+    }
+
+    const fuzzy = prepareFuzzySearch(query);
+    const scored: Array<{ file: TFile; score: number }> = [];
+    for (const file of files) {
+      // Prefer matches on the note name over matches on its folder
+      const result = fuzzy(file.basename) ?? fuzzy(file.path);
+      if (result) scored.push({ file, score: result.score });
+    }
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SUGGESTIONS)
+      .map((s) => s.file);
+  }
+
+  private render(): void {
+    if (!this.suggestEl) {
+      this.suggestEl = this.textarea.doc.body.createDiv("suggestion-container qlaude-suggest");
+      // Keep focus in the textarea when an item is clicked
+      this.suggestEl.addEventListener("mousedown", (e) => e.preventDefault());
+    }
+    const suggestEl = this.suggestEl;
+    suggestEl.empty();
+    const listEl = suggestEl.createDiv("suggestion");
+    this.items.forEach((file, i) => {
+      const itemEl = listEl.createDiv("suggestion-item mod-complex");
+      const contentEl = itemEl.createDiv("suggestion-content");
+      contentEl.createDiv({ text: file.basename, cls: "suggestion-title" });
+      if (file.parent && !file.parent.isRoot()) {
+        contentEl.createDiv({ text: file.parent.path, cls: "suggestion-note" });
+      }
+      itemEl.addEventListener("mouseenter", () => this.select(i));
+      itemEl.addEventListener("click", () => this.pick(file));
+    });
+    this.selected = 0;
+    this.select(0);
+    this.position(suggestEl);
+  }
+
+  // Below the textarea, or above it when there is no room underneath
+  private position(suggestEl: HTMLElement): void {
+    const rect = this.textarea.getBoundingClientRect();
+    const height = suggestEl.offsetHeight;
+    const below = rect.bottom + 4 + height <= this.textarea.win.innerHeight;
+    suggestEl.setCssStyles({
+      left: `${rect.left}px`,
+      width: `${rect.width}px`,
+      top: below ? `${rect.bottom + 4}px` : `${Math.max(0, rect.top - height - 4)}px`,
+    });
+  }
+
+  private select(index: number): void {
+    this.selected = index;
+    const itemEls = this.suggestEl?.querySelectorAll(".suggestion-item") ?? [];
+    itemEls.forEach((el, i) => el.toggleClass("is-selected", i === index));
+    itemEls[index]?.scrollIntoView({ block: "nearest" });
+  }
+
+  private pick(file: TFile | undefined): void {
+    const start = this.triggerStart;
+    this.close();
+    if (!file || start === null) return;
+
+    const { value, selectionStart } = this.textarea;
+    const link = `[[${this.app.metadataCache.fileToLinktext(file, "")}]] `;
+    // Swallow a "]]" the user may already have typed after the caret
+    const rest = value.slice(selectionStart).replace(/^\]\]\s?/, "");
+    this.textarea.value = value.slice(0, start) + link + rest;
+    const caret = start + link.length;
+    this.textarea.setSelectionRange(caret, caret);
+    this.onPick(file);
+  }
+}
@@ -0,0 +1,224 @@
+import * as http from "http";
+import { randomBytes } from "crypto";
+import type { AddressInfo } from "net";
+
+export const PERMISSION_SERVER_NAME = "qlaude";
+export const PERMISSION_TOOL_NAME = "approval_prompt";
+// The name the CLI expects for --permission-prompt-tool
+export const PERMISSION_PROMPT_TOOL = `mcp__${PERMISSION_SERVER_NAME}__${PERMISSION_TOOL_NAME}`;
+
+export interface PermissionRequest {
+  toolName: string;
+  input: Record<string, unknown>;
+  toolUseId?: string;
+}
+
+export type PermissionDecision = "allow" | "deny";
+
+export type PermissionHandler = (request: PermissionRequest) => Promise<PermissionDecision>;
+
+export interface PermissionRoute {
+  // Value for the CLI's --mcp-config flag
+  mcpConfig: string;
+  dispose: () => void;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface Registration {
+  handler: PermissionHandler;
+  pending: Set<(decision: PermissionDecision) => void>;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * A minimal MCP server (Streamable HTTP transport, JSON responses only) bound
+ * to localhost. It exposes a single approval tool that the CLI calls through
+ * --permission-prompt-tool; each run gets its own unguessable URL so calls are
+ * routed back to the modal that started the run.
+ */
+export class PermissionBridge {
+  private server: http.Server | null = null;
+  private port = 0;
+  private routes: Map<string, Registration> = new Map();
+
+  get isRunning(): boolean {
+    return this.server !== null && this.port !== 0;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+    const server = http.createServer((req, res) => this.handleHttp(req, res));
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      const fail = (err: Error) => {
+        // Forgotten so a later start() can try again
+        if (this.server === server) this.server = null;
+        reject(err);
+      };
+      server.once("error", fail);
+      server.listen(0, "127.0.0.1", () => {
+        server.off("error", fail);
+        this.port = (server.address() as AddressInfo).port;
+        resolve();
+      });
+    });
+  }
+
+  stop(): void {
+    for (const token of [...this.routes.keys()]) {
+      this.unregister(token);
+    }
+    this.server?.close();
+    this.server = null;
+    this.port = 0;
+  }
+
+  register(handler: PermissionHandler): PermissionRoute {
+    const token = randomBytes(16).toString("hex");
+    this.routes.set(token, { handler, pending: new Set() });
+    const mcpConfig = JSON.stringify({
+      mcpServers: {
+        [PERMISSION_SERVER_NAME]: {
+          type: "http",
+          url: `http://127.0.0.1:${this.port}/mcp/${token}`,
+        },
+      },
+    });
+    return { mcpConfig, dispose: () => this.unregister(token) };
+  }
+
+  private unregister(token: string): void {
+    const registration = this.routes.get(token);
+    if (!registration) return;
+    this.routes.delete(token);
+    // Unblock any prompt still waiting so the HTTP request does not hang
+    for (const resolve of registration.pending) resolve("deny");
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const match = /^\/mcp\/([0-9a-f]+)$/.exec(req.url ?? "");
+    const registration = match ? this.routes.get(match[1]) : undefined;
+    if (!registration) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method !== "POST") {
+      // No server-initiated streams or sessions
+      res.writeHead(405, { Allow: "POST" }).end();
+      return;
+    }
+
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) req.destroy();
+    });
+    req.on("end", () => {
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(body) as JsonRpcMessage;
+      } catch {
+        this.sendJson(res, { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+        return;
+      }
+      void this.handleRpc(registration, message).then((result) => {
+        if (message.id === undefined) {
+          res.writeHead(202).end();
+        } else {
+          this.sendJson(res, { jsonrpc: "2.0", id: message.id, ...result });
+        }
+      });
+    });
+  }
+
+  private async handleRpc(
+    registration: Registration,
+    message: JsonRpcMessage
+  ): Promise<Record<string, unknown>> {
+    switch (message.method) {
+      case "initialize":
+        return {
+          result: {
+            protocolVersion: message.params?.protocolVersion ?? "2025-03-26",
+            capabilities: { tools: {} },
+            serverInfo: { name: PERMISSION_SERVER_NAME, version: "1.0.0" },
+          },
+        };
+
+      case "ping":
+        return { result: {} };
+
+      case "tools/list":
+        return {
+          result: {
+            tools: [
+              {
+                name: PERMISSION_TOOL_NAME,
+                description: "Asks the Qlaude user whether a tool call may proceed.",
+                inputSchema: {
+                  type: "object",
+                  properties: {
+                    tool_name: { type: "string" },
+                    input: { type: "object" },
+                    tool_use_id: { type: "string" },
+                  },
+                  required: ["tool_name", "input"],
+                },
+              },
+            ],
+          },
+        };
+
+      case "tools/call": {
+        const args = (message.params?.arguments ?? {}) as {
+          tool_name?: string;
+          input?: Record<string, unknown>;
+          tool_use_id?: string;
+        };
+        const input = args.input ?? {};
+        const decision = await this.ask(registration, {
+          toolName: args.tool_name ?? "unknown",
+          input,
+          toolUseId: args.tool_use_id,
+        });
+        const payload =
+          decision === "allow"
+            ? { behavior: "allow", updatedInput: input }
+            : { behavior: "deny", message: "The user denied this tool call." };
+        return { result: { content: [{ type: "text", text: JSON.stringify(payload) }] } };
+      }
+
+      default:
+        if (message.id === undefined) return {};
+        return { error: { code: -32601, message: `Method not found: ${message.method ?? ""}` } };
+    }
+  }
+
+  private ask(registration: Registration, request: PermissionRequest): Promise<PermissionDecision> {
+    return new Promise((resolve) => {
+      const settle = (decision: PermissionDecision) => {
+        if (!registration.pending.delete(settle)) return;
+        resolve(decision);
+      };
+      registration.pending.add(settle);
+      registration.handler(request).then(settle, () => settle("deny"));
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, payload: unknown): void {
+    const body = JSON.stringify(payload);
+    res.writeHead(200, {
+      "Content-Type": "application/json",
+      "Content-Length": Buffer.byteLength(body),
+    });
+    res.end(body);
+  }
+}
@@ -0,0 +1,293 @@
+import * as fs from "fs";
+import * as path from "path";
+import { buildToolsList, ClaudianPermissions, ClaudianSettings, PermissionMode } from "./settings";
+import { resolveToolPath } from "./snapshots";
+import {
+  FolderRuleOperation,
+  compileGlob,
+  isWithin,
+  matchFolderRules,
+  pathsIgnoreCase,
+  rulesFor,
+} from "./folder-rules";
+
+const MODE_RANK: Record<PermissionMode, number> = { deny: 0, ask: 1, allow: 2 };
+
+function mostPermissive(...modes: PermissionMode[]): PermissionMode {
+  return modes.reduce((best, m) => (MODE_RANK[m] > MODE_RANK[best] ? m : best), "deny");
+}
+
+function leastPermissive(...modes: PermissionMode[]): PermissionMode {
+  return modes.reduce((worst, m) => (MODE_RANK[m] < MODE_RANK[worst] ? m : worst), "allow");
+}
+
+export function withoutAskPermissions(settings: ClaudianSettings): ClaudianSettings {
+  const permissions = { ...settings.permissions };
+  for (const key of Object.keys(permissions) as Array<keyof ClaudianPermissions>) {
+    if (permissions[key] === "ask") permissions[key] = "deny";
+  }
+  return { ...settings, permissions };
+}
+
+// For runs whose reply is the edit (replacing the editor selection)
+export function withoutEditPermissions(settings: ClaudianSettings): ClaudianSettings {
+  return {
+    ...settings,
+    permissions: {
+      ...settings.permissions,
+      editCurrentFile: "deny",
+      editAnyFile: "deny",
+      createFiles: "deny",
+    },
+    folderRules: settings.folderRules.filter(
+      (r) => r.effect === "deny" || (r.operation !== "edit" && r.operation !== "create")
+    ),
+  };
+}
+
+export interface CliPermissionRules {
+  allow: string[];
+  ask: string[];
+  deny: string[];
+}
+
+// The CLI's built-in tools; any not enabled by the permissions is denied outright
+const BUILT_IN_TOOLS = [
+  "Bash",
+  "BashOutput",
+  "Edit",
+  "ExitPlanMode",
+  "Glob",
+  "Grep",
+  "KillShell",
+  "LS",
+  "MultiEdit",
+  "NotebookEdit",
+  "NotebookRead",
+  "Read",
+  "SlashCommand",
+  "Skill",
+  "Task",
+  "TodoWrite",
+  "WebFetch",
+  "WebSearch",
+  "Write",
+];
+const LIST_TOOLS = ["Glob", "Grep", "LS"];
+
+export function isInsideVault(vaultPath: string, absolutePath: string): boolean {
+  const relative = path.relative(path.resolve(vaultPath), absolutePath);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+// Absolute paths in CLI rules are written "//abs/path", with Windows drives as "/c/..."
+export function toRulePath(absolutePath: string): string {
+  const posix = absolutePath
+    .replace(/\\/g, "/")
+    .replace(/^([A-Za-z]):/, (_m, drive: string) => `/${drive.toLowerCase()}`);
+  return `/${posix.replace(/[*?[\]()]/g, "\\$&")}`;
+}
+
+function samePath(a: string, b: string): boolean {
+  return pathsIgnoreCase() ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+function toVaultRelative(vaultPath: string, absolutePath: string): string {
+  return path.relative(path.resolve(vaultPath), absolutePath).split(path.sep).join("/");
+}
+
+function globRule(vaultPath: string, glob: string): string {
+  return `${toRulePath(path.resolve(vaultPath))}/${glob}`;
+}
+
+/**
+ * Rule paths covering every path in the vault except keepPaths: the siblings
+ * of each folder on the way down to them. With no keepPaths, the whole vault.
+ */
+function fencePaths(vaultPath: string, keepPaths: string[]): string[] {
+  const root = path.resolve(vaultPath);
+  if (keepPaths.length === 0) return [`${toRulePath(root)}/**`];
+
+  const patterns: string[] = [];
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (keepPaths.includes(entryPath)) continue;
+      if (keepPaths.some((keep) => isInsideVault(entryPath, keep))) {
+        walk(entryPath);
+      } else {
+        const rulePath = toRulePath(entryPath);
+        patterns.push(entry.isDirectory() ? `${rulePath}/**` : rulePath);
+      }
+    }
+  };
+  walk(root);
+  return patterns;
+}
+
+/**
+ * Translates the plugin permissions into CLI permission rules so they are
+ * enforced by the CLI itself rather than by the system prompt. Read-only tools
+ * never reach the permission prompt for files inside the working directory,
+ * so restricted reads are sent there with an ask rule on the whole vault;
+ * the prompt then lets the active file, attached notes and allowed folders
+ * through. Rules name whole folders rather than the files in them, so notes
+ * created while a process runs are covered too. Without the prompt, those
+ * reads are allowed by name instead and everything around them is denied.
+ * Anything not covered here (edits outside the allowed set, other tools)
+ * also falls through to the permission prompt tool, or is refused when there
+ * is none.
+ */
+export function buildPermissionRules(
+  settings: ClaudianSettings,
+  vaultPath: string,
+  currentFilePath: string | null,
+  attachedPaths: string[] = [],
+  hasPermissionPrompt = true
+): CliPermissionRules {
+  const p = settings.permissions;
+  const folderRules = settings.folderRules;
+  const rules: CliPermissionRules = { allow: [], ask: [], deny: [] };
+  const vaultRule = `${toRulePath(path.resolve(vaultPath))}/**`;
+  const current = currentFilePath ? resolveToolPath(vaultPath, currentFilePath) : null;
+  const tools = buildToolsList(settings);
+
+  rules.deny.push(...BUILT_IN_TOOLS.filter((t) => !tools.includes(t)));
+
+  // Folder denies win over everything, including the active file
+  for (const glob of rulesFor(folderRules, "read", "deny")) {
+    rules.deny.push(`Read(${globRule(vaultPath, glob)})`);
+  }
+  for (const glob of rulesFor(folderRules, "edit", "deny")) {
+    rules.deny.push(`Edit(${globRule(vaultPath, glob)})`);
+  }
+  for (const glob of rulesFor(folderRules, "create", "deny")) {
+    rules.deny.push(`Write(${globRule(vaultPath, glob)})`);
+  }
+
+  const readDenied = rulesFor(folderRules, "read", "deny").length > 0;
+  const readsEverything = p.readVault === "allow" && !readDenied;
+  // The CLI's deny rules may match by case, so where paths ignore it the prompt checks each read
+  const checkEachRead = hasPermissionPrompt && readDenied && pathsIgnoreCase();
+  if (p.readVault === "allow" && !checkEachRead) {
+    rules.allow.push(`Read(${vaultRule})`);
+  } else if (hasPermissionPrompt) {
+    rules.ask.push(`Read(${vaultRule})`);
+  } else {
+    // An ask rule would refuse these too, as it wins over any allow rule
+    const files = [currentFilePath, ...attachedPaths]
+      .filter((f): f is string => f !== null)
+      .map((f) => resolveToolPath(vaultPath, f));
+    const folders = rulesFor(folderRules, "read", "allow").filter((g) => compileGlob(g).literalPrefix);
+    rules.allow.push(...files.map((f) => `Read(${toRulePath(f)})`));
+    rules.allow.push(...folders.map((g) => `Read(${globRule(vaultPath, g)})`));
+    // Globs without a fixed folder, like "**/*.md", can't be fenced off and stay closed
+    const kept = folders.map((g) => path.resolve(vaultPath, compileGlob(g).literalPrefix));
+    rules.deny.push(...fencePaths(vaultPath, [...files, ...kept]).map((r) => `Read(${r})`));
+  }
+
+  // Listing is read-only, so per-folder list rules only take effect if every
+  // call is routed to the permission prompt where they can be checked. Grep
+  // shows what notes contain, so it is held to the read permission as well.
+  const hasListRules = folderRules.some((r) => r.operation === "list");
+  const listAllowed = p.listVaultStructure === "allow" && !hasListRules;
+  const listAsked = p.listVaultStructure !== "deny" || hasListRules;
+  for (const tool of LIST_TOOLS) {
+    if (listAllowed && (tool !== "Grep" || readsEverything)) rules.allow.push(tool);
+    else if (listAsked) rules.ask.push(tool);
+  }
+
+  const editAllow = rulesFor(folderRules, "edit", "allow");
+  if (p.editAnyFile === "allow") {
+    rules.allow.push(`Edit(${vaultRule})`);
+    if (p.createFiles === "allow") rules.allow.push(`Write(${vaultRule})`);
+  } else {
+    if (p.editCurrentFile === "allow" && current) {
+      rules.allow.push(`Edit(${toRulePath(current)})`);
+    }
+    rules.allow.push(...editAllow.map((g) => `Edit(${globRule(vaultPath, g)})`));
+  }
+
+  return rules;
+}
+
+/** Decides how a single tool call should be handled under the current permissions. */
+export function classifyToolCall(
+  settings: ClaudianSettings,
+  vaultPath: string,
+  currentFilePath: string | null,
+  toolName: string,
+  input: Record<string, unknown>,
+  attachedPaths: string[] = []
+): PermissionMode {
+  const p = settings.permissions;
+  const folderRules = settings.folderRules;
+  const filePath = typeof input.file_path === "string" ? input.file_path : null;
+  const absolute = filePath ? resolveToolPath(vaultPath, filePath) : null;
+  const isCurrentFile =
+    absolute !== null &&
+    currentFilePath !== null &&
+    samePath(absolute, resolveToolPath(vaultPath, currentFilePath));
+  const isAttached =
+    absolute !== null && attachedPaths.some((p) => samePath(resolveToolPath(vaultPath, p), absolute));
+
+  // Nothing outside the vault, whatever the permissions say
+  const searchPath = typeof input.path === "string" ? input.path : null;
+  if (absolute && !isInsideVault(vaultPath, absolute)) return "deny";
+  const searchAbsolute = searchPath ? resolveToolPath(vaultPath, searchPath) : path.resolve(vaultPath);
+  if (!isInsideVault(vaultPath, searchAbsolute)) return "deny";
+
+  const relative = absolute ? toVaultRelative(vaultPath, absolute) : "";
+  const searchRelative = toVaultRelative(vaultPath, searchAbsolute);
+  const folder = (operation: FolderRuleOperation, fallback: PermissionMode): PermissionMode => {
+    const effect = matchFolderRules(folderRules, operation, relative);
+    return effect ?? fallback;
+  };
+
+  switch (toolName) {
+    case "Read":
+      if (matchFolderRules(folderRules, "read", relative) === "deny") return "deny";
+      return isCurrentFile || isAttached ? "allow" : folder("read", p.readVault);
+    case "Glob":
+    case "LS":
+      return listMode();
+    case "Grep":
+      // Matching lines show what the notes contain, so Grep needs to read them too
+      return leastPermissive(listMode(), readModeUnder(searchRelative));
+    case "Edit":
+      return editMode();
+    case "Write":
+      if (absolute && !fs.existsSync(absolute)) return folder("create", p.createFiles);
+      return editMode();
+    default:
+      return "deny";
+  }
+
+  function listMode(): PermissionMode {
+    return matchFolderRules(folderRules, "list", searchRelative) ?? p.listVaultStructure;
+  }
+
+  // Reading every note below a folder; a read deny anywhere inside it denies the lot
+  function readModeUnder(folderPath: string): PermissionMode {
+    const denied = rulesFor(folderRules, "read", "deny").some((glob) => {
+      const prefix = compileGlob(glob).literalPrefix;
+      return isWithin(prefix, folderPath) || isWithin(folderPath, prefix);
+    });
+    if (denied) return "deny";
+    return matchFolderRules(folderRules, "read", folderPath) ?? p.readVault;
+  }
+
+  function editMode(): PermissionMode {
+    if (matchFolderRules(folderRules, "edit", relative) === "deny") return "deny";
+    if (isCurrentFile) {
+      return mostPermissive(p.editCurrentFile, folder("edit", p.editAnyFile));
+    }
+    return folder("edit", p.editAnyFile);
+  }
+}
@@ -0,0 +1,101 @@
+import type { ClaudeError, ClaudeRunner, ClaudeRunnerCallbacks } from "./claude-runner";
+import type { ClaudianSettings } from "./settings";
+
+// Backoff never waits longer than this between attempts
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export interface PendingRetry {
+  // The failure being retried
+  error: ClaudeError;
+  // 1 for the first retry
+  attempt: number;
+  maxAttempts: number;
+  retryAt: number;
+  // False once the retry has started, been given up, or the run was killed
+  isWaiting: () => boolean;
+  retryNow: () => void;
+  // Ends the run with `error` instead of retrying
+  giveUp: () => void;
+}
+
+export function isTransientError(error: ClaudeError): boolean {
+  return error.kind === "rateLimited" || error.kind === "network";
+}
+
+export function retryDelayMs(settings: ClaudianSettings, attempt: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, settings.retryDelaySeconds * 1000 * 2 ** (attempt - 1));
+}
+
+/**
+ * Runs `start` and, when it fails with a transient error, starts it again
+ * after an exponential backoff, up to `settings.retryAttempts` times.
+ * onRetry announces each wait; the retries happen whether or not anyone
+ * listens. Other errors, and the last transient one, go to onError.
+ */
+export function withRetry(
+  settings: ClaudianSettings,
+  callbacks: ClaudeRunnerCallbacks,
+  start: (callbacks: ClaudeRunnerCallbacks) => ClaudeRunner
+): ClaudeRunner {
+  let attempt = 0;
+  let current: ClaudeRunner | null = null;
+  let timer: number | null = null;
+  let killed = false;
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      window.clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const schedule = (error: ClaudeError) => {
+    attempt++;
+    let waiting = true;
+    const delay = retryDelayMs(settings, attempt);
+    const retryNow = () => {
+      if (!waiting || killed) return;
+      waiting = false;
+      clearTimer();
+      run();
+    };
+    timer = window.setTimeout(retryNow, delay);
+    callbacks.onRetry?.({
+      error,
+      attempt,
+      maxAttempts: settings.retryAttempts,
+      retryAt: Date.now() + delay,
+      isWaiting: () => waiting && !killed,
+      retryNow,
+      giveUp: () => {
+        if (!waiting || killed) return;
+        waiting = false;
+        clearTimer();
+        callbacks.onError(error);
+      },
+    });
+  };
+
+  const run = () => {
+    current = start({
+      ...callbacks,
+      onError: (error) => {
+        current = null;
+        if (killed) return;
+        if (isTransientError(error) && attempt < settings.retryAttempts) schedule(error);
+        else callbacks.onError(error);
+      },
+    });
+  };
+
+  run();
+
+  return {
+    kill: () => {
+      killed = true;
+      clearTimer();
+      current?.kill();
+      current = null;
+    },
+  };
+}
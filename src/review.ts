@@ -0,0 +1,220 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DiffChunk, diffLines, mergeChunks } from "./diff";
+import { FileSnapshot, restoreSnapshot } from "./snapshots";
+
+const CONTEXT_LINES = 3;
+
+type HunkDecision = "pending" | "accepted" | "rejected";
+
+interface FileReview {
+  snapshot: FileSnapshot;
+  relativePath: string;
+  chunks: DiffChunk[];
+  decisions: HunkDecision[];
+  // What we expect on disk; a mismatch means the file was edited elsewhere
+  expected: string | null;
+  hunkEls: HTMLElement[];
+  statusEl?: HTMLElement;
+}
+
+function readText(absolutePath: string): string | null {
+  try {
+    return fs.readFileSync(absolutePath, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Renders a unified diff of every file changed during a run against its
+ * snapshot, with Accept/Reject controls per hunk and per file. Changes are
+ * already on disk, so accepting is a no-op and rejecting rolls back.
+ */
+export class ChangeReview {
+  private files: FileReview[] = [];
+
+  constructor(
+    private containerEl: HTMLElement,
+    vaultPath: string,
+    snapshots: FileSnapshot[]
+  ) {
+    for (const snapshot of snapshots) {
+      const before = snapshot.content?.toString("utf8") ?? "";
+      const after = readText(snapshot.absolutePath);
+      if (after === null && snapshot.content === null) continue;
+      if (after !== null && after === before && snapshot.content !== null) continue;
+
+      const chunks = diffLines(before, after ?? "");
+      const hunkCount = chunks.filter((c) => c.type === "change").length;
+      if (hunkCount === 0) continue;
+      this.files.push({
+        snapshot,
+        relativePath: path.relative(vaultPath, snapshot.absolutePath),
+        chunks,
+        decisions: new Array<HunkDecision>(hunkCount).fill("pending"),
+        expected: after,
+        hunkEls: [],
+      });
+    }
+  }
+
+  get isEmpty(): boolean {
+    return this.files.length === 0;
+  }
+
+  render(): void {
+    if (this.isEmpty) return;
+
+    const reviewEl = this.containerEl.createDiv("qlaude-review");
+    reviewEl.createDiv({
+      text: `Review changes (${this.files.length} file${this.files.length === 1 ? "" : "s"})`,
+      cls: "qlaude-review__title",
+    });
+
+    for (const file of this.files) {
+      this.renderFile(reviewEl, file);
+    }
+  }
+
+  private renderFile(parentEl: HTMLElement, file: FileReview): void {
+    const fileEl = parentEl.createDiv("qlaude-review__file");
+    const headerEl = fileEl.createDiv("qlaude-review__file-header");
+    headerEl.createSpan({
+      text: file.snapshot.content === null ? `${file.relativePath} (new)` : file.relativePath,
+      cls: "qlaude-review__path",
+    });
+    file.statusEl = headerEl.createSpan({ cls: "qlaude-review__file-status" });
+
+    const acceptAll = headerEl.createEl("button", {
+      text: "Accept file",
+      cls: "qlaude-review__btn qlaude-review__btn--accept",
+    });
+    acceptAll.addEventListener("click", () =>
+      void this.decide(file, file.decisions.map(() => "accepted"))
+    );
+    const rejectAll = headerEl.createEl("button", {
+      text: "Reject file",
+      cls: "qlaude-review__btn qlaude-review__btn--reject",
+    });
+    rejectAll.addEventListener("click", () =>
+      void this.decide(file, file.decisions.map(() => "rejected"))
+    );
+
+    let hunkIndex = 0;
+    file.chunks.forEach((chunk, i) => {
+      if (chunk.type !== "change") return;
+      const index = hunkIndex++;
+      const hunkEl = fileEl.createDiv("qlaude-review__hunk");
+      file.hunkEls.push(hunkEl);
+
+      const controlsEl = hunkEl.createDiv("qlaude-review__hunk-controls");
+      const acceptBtn = controlsEl.createEl("button", {
+        text: "Accept",
+        cls: "qlaude-review__btn qlaude-review__btn--accept",
+      });
+      acceptBtn.addEventListener("click", () => void this.decideHunk(file, index, "accepted"));
+      const rejectBtn = controlsEl.createEl("button", {
+        text: "Reject",
+        cls: "qlaude-review__btn qlaude-review__btn--reject",
+      });
+      rejectBtn.addEventListener("click", () => void this.decideHunk(file, index, "rejected"));
+
+      const linesEl = hunkEl.createEl("pre", { cls: "qlaude-review__lines" });
+      const prev = file.chunks[i - 1];
+      const next = file.chunks[i + 1];
+      if (prev?.type === "equal") {
+        for (const line of prev.lines.slice(-CONTEXT_LINES)) {
+          this.renderLine(linesEl, " ", line, "context");
+        }
+      }
+      for (const line of chunk.removed) this.renderLine(linesEl, "-", line, "removed");
+      for (const line of chunk.added) this.renderLine(linesEl, "+", line, "added");
+      if (next?.type === "equal") {
+        for (const line of next.lines.slice(0, CONTEXT_LINES)) {
+          this.renderLine(linesEl, " ", line, "context");
+        }
+      }
+    });
+
+    this.refreshFile(file);
+  }
+
+  private renderLine(
+    linesEl: HTMLElement,
+    prefix: string,
+    line: string,
+    kind: "context" | "removed" | "added"
+  ): void {
+    linesEl.createDiv({
+      text: prefix + line.replace(/\n$/, ""),
+      cls: `qlaude-review__line qlaude-review__line--${kind}`,
+    });
+  }
+
+  private async decideHunk(file: FileReview, index: number, decision: HunkDecision): Promise<void> {
+    const next = [...file.decisions];
+    next[index] = decision;
+    await this.decide(file, next);
+  }
+
+  private async decide(file: FileReview, decisions: HunkDecision[]): Promise<void> {
+    const onDisk = readText(file.snapshot.absolutePath);
+    if (onDisk !== file.expected) {
+      this.setFileError(file, "Changed outside review, cannot apply");
+      return;
+    }
+
+    const rejected = new Set<number>();
+    decisions.forEach((d, i) => {
+      if (d === "rejected") rejected.add(i);
+    });
+
+    try {
+      if (rejected.size === decisions.length) {
+        // Everything rejected: put back the exact original bytes (or remove a new file)
+        await restoreSnapshot(file.snapshot);
+        file.expected = file.snapshot.content?.toString("utf8") ?? null;
+      } else {
+        const merged = mergeChunks(file.chunks, rejected);
+        await fs.promises.writeFile(file.snapshot.absolutePath, merged, "utf8");
+        file.expected = merged;
+      }
+    } catch (err) {
+      this.setFileError(file, `Failed: ${(err as Error).message}`);
+      return;
+    }
+
+    file.decisions = decisions;
+    this.refreshFile(file);
+  }
+
+  private setFileError(file: FileReview, message: string): void {
+    if (!file.statusEl) return;
+    file.statusEl.textContent = message;
+    file.statusEl.addClass("is-error");
+  }
+
+  private refreshFile(file: FileReview): void {
+    file.decisions.forEach((decision, i) => {
+      const hunkEl = file.hunkEls[i];
+      hunkEl.toggleClass("is-accepted", decision === "accepted");
+      hunkEl.toggleClass("is-rejected", decision === "rejected");
+    });
+
+    const statusEl = file.statusEl;
+    if (!statusEl) return;
+    const pending = file.decisions.filter((d) => d === "pending").length;
+    const rejected = file.decisions.filter((d) => d === "rejected").length;
+    statusEl.removeClass("is-error");
+    if (pending > 0) {
+      statusEl.textContent = `${pending} of ${file.decisions.length} pending`;
+    } else if (rejected === 0) {
+      statusEl.textContent = "Accepted";
+    } else if (rejected === file.decisions.length) {
+      statusEl.textContent = "Rejected";
+    } else {
+      statusEl.textContent = `${rejected} rejected`;
+    }
+  }
+}
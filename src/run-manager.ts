@@ -0,0 +1,298 @@
+import { Notice } from "obsidian";
+import {
+  ClaudeError,
+  ClaudeRunner,
+  ClaudeRunnerCallbacks,
+  RunClaudeOptions,
+  RunUsage,
+  ToolResultEvent,
+  ToolUseEvent,
+  runClaude,
+} from "./claude-runner";
+import type { PermissionDecision, PermissionRequest } from "./permission-bridge";
+import type { PendingRetry } from "./retry";
+import { FileSnapshot, UndoStack } from "./snapshots";
+import type { UsageLedger } from "./usage-ledger";
+
+export type RunStatus = "running" | "done" | "error" | "cancelled";
+
+// Everything a run has streamed so far, replayed when a panel attaches
+type RunEvent =
+  | { type: "text"; text: string }
+  | { type: "thinking"; text: string }
+  | { type: "toolUse"; event: ToolUseEvent }
+  | { type: "toolResult"; event: ToolResultEvent }
+  | { type: "done"; usage: RunUsage }
+  | { type: "error"; error: ClaudeError }
+  | { type: "retry"; retry: PendingRetry };
+
+export type RunListener = Omit<ClaudeRunnerCallbacks, "onSystemInit">;
+
+// Runs once when a run succeeds, whether or not a panel is attached; may return a status message
+export type RunDoneHook = (run: BackgroundRun) => string | void;
+
+interface PendingPermission {
+  request: PermissionRequest;
+  resolve: (decision: PermissionDecision) => void;
+}
+
+/**
+ * A quick action owned by the RunManager rather than the modal, so closing the
+ * modal only detaches its output. Tool calls are snapshotted here as well so
+ * Undo still works after reattaching.
+ */
+export class BackgroundRun {
+  readonly id: number;
+  readonly prompt: string;
+  readonly currentFilePath: string | null;
+  readonly startedAt = Date.now();
+  readonly undoStack: UndoStack;
+  status: RunStatus = "running";
+  // Files changed by the run, available once it finishes
+  snapshots: FileSnapshot[] = [];
+  // Text streamed after the last tool call, i.e. Claude's final answer
+  finalText = "";
+  // Status line shown when the run is done, set by the onDone hook
+  doneMessage: string | null = null;
+  usage: RunUsage | null = null;
+
+  private events: RunEvent[] = [];
+  private listener: RunListener | null = null;
+  private pendingPermissions: PendingPermission[] = [];
+  private runner: ClaudeRunner | null = null;
+  private finished = false;
+
+  constructor(
+    id: number,
+    options: Omit<RunClaudeOptions, "callbacks">,
+    private onFinish: (run: BackgroundRun) => void,
+    private onChange: () => void,
+    private onDone?: RunDoneHook
+  ) {
+    this.id = id;
+    this.prompt = options.prompt;
+    this.currentFilePath = options.currentFilePath;
+    this.undoStack = new UndoStack(options.vaultPath);
+    this.undoStack.beginTurn();
+
+    this.runner = runClaude({
+      ...options,
+      callbacks: {
+        onText: (text) => {
+          this.finalText += text;
+          this.record({ type: "text", text });
+        },
+        onToolUse: (event) => {
+          this.undoStack.capture(event.name, event.input);
+          this.finalText = "";
+          this.record({ type: "toolUse", event });
+        },
+        onThinking: (text) => this.record({ type: "thinking", text }),
+        onToolResult: (event) => this.record({ type: "toolResult", event }),
+        onSystemInit: () => {},
+        onDone: (usage) => {
+          if (!this.finished) {
+            this.usage = usage;
+            this.doneMessage = this.onDone?.(this) ?? null;
+          }
+          this.finish("done");
+          this.record({ type: "done", usage });
+        },
+        onError: (error) => {
+          if (!this.finished && error.usage) this.usage = error.usage;
+          this.finish("error");
+          this.record({ type: "error", error });
+        },
+        onRetry: (retry) => {
+          // The next attempt streams its answer again
+          this.finalText = "";
+          this.record({ type: "retry", retry });
+        },
+        onPermissionRequest: (request) => this.requestPermission(request),
+        onBeforeToolUse: (request) => this.undoStack.capture(request.toolName, request.input),
+      },
+    });
+  }
+
+  get isAttached(): boolean {
+    return this.listener !== null;
+  }
+
+  get isWaitingForApproval(): boolean {
+    return this.pendingPermissions.length > 0;
+  }
+
+  /** Replays the output so far into `listener`, then streams live events to it. */
+  attach(listener: RunListener): void {
+    this.listener = listener;
+    for (const event of this.events) this.dispatch(event, listener);
+    for (const pending of this.pendingPermissions) this.forwardPermission(pending);
+    this.onChange();
+  }
+
+  detach(): void {
+    this.listener = null;
+    this.onChange();
+  }
+
+  cancel(): void {
+    if (this.status !== "running") return;
+    this.runner?.kill();
+    this.runner = null;
+    for (const pending of this.pendingPermissions.splice(0)) pending.resolve("deny");
+    this.finish("cancelled");
+  }
+
+  private record(event: RunEvent): void {
+    // Text streams in small pieces; one event per stretch of text keeps replays short
+    const last = this.events[this.events.length - 1];
+    if ((event.type === "text" || event.type === "thinking") && last?.type === event.type) {
+      last.text += event.text;
+    } else {
+      this.events.push(event.type === "text" || event.type === "thinking" ? { ...event } : event);
+    }
+    if (this.listener) this.dispatch(event, this.listener);
+  }
+
+  private dispatch(event: RunEvent, listener: RunListener): void {
+    switch (event.type) {
+      case "text":
+        listener.onText(event.text);
+        break;
+      case "thinking":
+        listener.onThinking?.(event.text);
+        break;
+      case "toolUse":
+        listener.onToolUse(event.event);
+        break;
+      case "toolResult":
+        listener.onToolResult(event.event);
+        break;
+      case "done":
+        listener.onDone(event.usage);
+        break;
+      case "error":
+        listener.onError(event.error);
+        break;
+      case "retry":
+        listener.onRetry?.(event.retry);
+        break;
+    }
+  }
+
+  private finish(status: RunStatus): void {
+    // A late onDone or onError after cancel() keeps the run cancelled
+    if (this.finished) return;
+    this.status = status;
+    this.finished = true;
+    this.runner = null;
+    this.snapshots = this.undoStack.endTurn();
+    this.onFinish(this);
+  }
+
+  private requestPermission(request: PermissionRequest): Promise<PermissionDecision> {
+    return new Promise((resolve) => {
+      const pending: PendingPermission = { request, resolve };
+      this.pendingPermissions.push(pending);
+      this.onChange();
+      if (!this.listener) {
+        new Notice("Qlaude is waiting for your approval. Click the status bar to review.");
+      }
+      this.forwardPermission(pending);
+    });
+  }
+
+  // A prompt left unanswered by a detached panel is shown again on the next attach
+  private forwardPermission(pending: PendingPermission): void {
+    const listener = this.listener;
+    if (!listener?.onPermissionRequest) return;
+    void listener.onPermissionRequest(pending.request).then((decision) => {
+      const index = this.pendingPermissions.indexOf(pending);
+      if (index === -1 || this.listener !== listener) return;
+      this.pendingPermissions.splice(index, 1);
+      pending.resolve(decision);
+      this.onChange();
+    });
+  }
+}
+
+/**
+ * Owns quick action runs for the lifetime of the plugin. Runs keep going when
+ * their modal closes; finished runs nobody was watching stay listed until
+ * they are reopened.
+ */
+export class RunManager {
+  private runs: BackgroundRun[] = [];
+  private nextId = 1;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(private usageLedger?: UsageLedger) {}
+
+  start(options: Omit<RunClaudeOptions, "callbacks">, onDone?: RunDoneHook): BackgroundRun {
+    const run = new BackgroundRun(
+      this.nextId++,
+      options,
+      (finished) => this.handleFinish(finished),
+      () => this.notify(),
+      onDone
+    );
+    if (run.status === "running") this.runs.push(run);
+    this.notify();
+    return run;
+  }
+
+  /** Runs still in progress or finished without anyone watching, newest first. */
+  list(): BackgroundRun[] {
+    return [...this.runs].reverse();
+  }
+
+  get runningCount(): number {
+    return this.runs.filter((r) => r.status === "running").length;
+  }
+
+  // Hands a run over to a panel; finished runs are forgotten once viewed
+  claim(run: BackgroundRun): void {
+    if (run.status !== "running") this.forget(run);
+  }
+
+  forget(run: BackgroundRun): void {
+    this.runs = this.runs.filter((r) => r !== run);
+    this.notify();
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  cancelAll(): void {
+    for (const run of this.runs) run.cancel();
+    this.runs = [];
+    this.notify();
+  }
+
+  private handleFinish(run: BackgroundRun): void {
+    if (run.usage) void this.usageLedger?.record("quick", run.usage);
+    // Failed to start; the panel that started it reports the error
+    if (!this.runs.includes(run)) return;
+    if (run.isAttached) {
+      this.forget(run);
+      return;
+    }
+    if (run.status !== "cancelled") {
+      const outcome = run.status === "done" ? "finished" : "failed";
+      const detail = run.doneMessage ? ` ${run.doneMessage}` : "";
+      new Notice(`Qlaude ${outcome}: ${truncate(run.prompt, 60)}${detail}`);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener();
+  }
+}
+
+export function truncate(text: string, max: number): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
@@ -0,0 +1,99 @@
+import { moment } from "obsidian";
+import type { ClaudianPermissions, ClaudianSettings, PermissionMode } from "./settings";
+
+export interface SavedPrompt {
+  id: string;
+  name: string;
+  // May use {{file}}, {{selection}}, {{date}}, {{date:FORMAT}}, {{time}} and {{frontmatter.key}}
+  body: string;
+  // Empty means the model from the main settings
+  model: string;
+  // Only the permissions listed here differ from the main settings
+  permissions: Partial<ClaudianPermissions>;
+  // Write the final reply over the editor selection instead of showing it only
+  replaceSelection: boolean;
+  // Null means the limit from the main settings
+  timeoutMinutes: number | null;
+  maxTurns: number | null;
+}
+
+export interface PromptTemplateContext {
+  filePath: string | null;
+  selection: string;
+  frontmatter: Record<string, unknown> | null;
+}
+
+export function newSavedPrompt(): SavedPrompt {
+  return {
+    id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+    name: "",
+    body: "",
+    model: "",
+    permissions: {},
+    replaceSelection: false,
+    timeoutMinutes: null,
+    maxTurns: null,
+  };
+}
+
+/** Settings for a run of `prompt`: the main settings with its overrides applied. */
+export function applyPromptOverrides(
+  settings: ClaudianSettings,
+  prompt: SavedPrompt
+): ClaudianSettings {
+  return {
+    ...applyPermissionOverrides(settings, prompt.permissions),
+    model: prompt.model.trim() || settings.model,
+    // Prompts saved before the limits existed don't have them
+    timeoutMinutes: prompt.timeoutMinutes ?? settings.timeoutMinutes,
+    maxTurns: prompt.maxTurns ?? settings.maxTurns,
+  };
+}
+
+export function applyPermissionOverrides(
+  settings: ClaudianSettings,
+  overrides: Partial<ClaudianPermissions>
+): ClaudianSettings {
+  const permissions = { ...settings.permissions };
+  for (const [key, mode] of Object.entries(overrides) as Array<
+    [keyof ClaudianPermissions, PermissionMode | undefined]
+  >) {
+    if (mode) permissions[key] = mode;
+  }
+  return { ...settings, permissions };
+}
+
+/**
+ * Fills in template variables. Unknown variables are left as written so a
+ * typo shows up in the prompt instead of silently disappearing.
+ */
+export function renderPromptTemplate(body: string, context: PromptTemplateContext): string {
+  return body.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (match, name: string) => {
+    if (name === "file") return context.filePath ?? "";
+    if (name === "selection") return context.selection;
+    if (name === "date") return moment().format("YYYY-MM-DD");
+    if (name.startsWith("date:")) return moment().format(name.slice(5));
+    if (name === "time") return moment().format("HH:mm");
+    if (name.startsWith("frontmatter.")) {
+      return formatValue(lookup(context.frontmatter, name.slice("frontmatter.".length)));
+    }
+    return match;
+  });
+}
+
+function lookup(source: Record<string, unknown> | null, keyPath: string): unknown {
+  let value: unknown = source;
+  for (const key of keyPath.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value) ?? "";
+}
@@ -1,46 +1,147 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import type ClaudianPlugin from "../main";
+import {
+  FOLDER_RULE_OPERATIONS,
+  FolderRule,
+  FolderRuleEffect,
+  FolderRuleOperation,
+  normalizeGlob,
+} from "./folder-rules";
+import { SavedPrompt, newSavedPrompt } from "./saved-prompts";
+import { AUTOMATION_TRIGGERS, Automation, AutomationTrigger, newAutomation } from "./automations";
+import { AutomationHistoryModal } from "./automation-history-modal";
+
+// "ask" pauses each matching tool call until the user approves it in the modal
+export type PermissionMode = "allow" | "ask" | "deny";
 
 export interface ClaudianPermissions {
-  readVault: boolean;
-  listVaultStructure: boolean;
-  editCurrentFile: boolean;
-  editAnyFile: boolean;
-  createFiles: boolean;
+  readVault: PermissionMode;
+  listVaultStructure: PermissionMode;
+  editCurrentFile: PermissionMode;
+  editAnyFile: PermissionMode;
+  createFiles: PermissionMode;
 }
 
 export interface ClaudianSettings {
   claudeBinaryPath: string;
   model: string;
   clearChatOnStart: boolean;
+  // Megabytes of conversation files to keep; 0 means no limit
+  chatHistoryLimitMb: number;
+  reviewChanges: boolean;
+  // Compact collapses thinking and tool cards; verbose shows them open
+  transcriptDetail: "compact" | "verbose";
+  // Retries for rate-limit and network failures, the first after retryDelaySeconds and doubling after that
+  retryAttempts: number;
+  retryDelaySeconds: number;
+  // Limits for one request; 0 means none
+  timeoutMinutes: number;
+  maxTurns: number;
+  // Write each process's arguments and raw output to the plugin folder
+  debugTranscripts: boolean;
+  // Where "Save as note" creates notes; empty means the vault root
+  noteFolder: string;
+  // Note every chat turn is appended to; empty turns the log off
+  chatLogNote: string;
   permissions: ClaudianPermissions;
+  // Per-folder exceptions to the permissions above; a matching deny always wins
+  folderRules: FolderRule[];
+  // Reusable quick actions, each also registered as a command
+  savedPrompts: SavedPrompt[];
+  // CLI processes a batch quick action runs at once
+  batchConcurrency: number;
+  // Where batch summary notes are created; empty means the vault root
+  batchReportFolder: string;
+  // Saved prompts run on a schedule or on vault events
+  automations: Automation[];
+  // Spending limits in USD; 0 means no limit
+  dailyBudgetUsd: number;
+  monthlyBudgetUsd: number;
+  // What happens to new runs once a budget is spent
+  budgetAction: "warn" | "block";
 }
 
 export const DEFAULT_SETTINGS: ClaudianSettings = {
   claudeBinaryPath: "claude",
   model: "claude-haiku-4-5",
   clearChatOnStart: false,
+  chatHistoryLimitMb: 50,
+  reviewChanges: false,
+  transcriptDetail: "compact",
+  retryAttempts: 3,
+  retryDelaySeconds: 5,
+  timeoutMinutes: 10,
+  maxTurns: 0,
+  debugTranscripts: false,
+  noteFolder: "Qlaude",
+  chatLogNote: "",
   permissions: {
-    readVault: false,
-    listVaultStructure: false,
-    editCurrentFile: false,
-    editAnyFile: false,
-    createFiles: false,
+    readVault: "deny",
+    listVaultStructure: "deny",
+    editCurrentFile: "deny",
+    editAnyFile: "deny",
+    createFiles: "deny",
   },
+  folderRules: [],
+  savedPrompts: [],
+  batchConcurrency: 3,
+  batchReportFolder: "Qlaude",
+  automations: [],
+  dailyBudgetUsd: 0,
+  monthlyBudgetUsd: 0,
+  budgetAction: "warn",
 };
 
+// A whole number of at least 0, or null when the field is empty or invalid
+function parseLimit(value: string): number | null {
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+const PERMISSION_LABELS: Record<keyof ClaudianPermissions, string> = {
+  readVault: "Read vault",
+  listVaultStructure: "List vault",
+  editCurrentFile: "Edit current",
+  editAnyFile: "Edit any",
+  createFiles: "Create",
+};
+
+// Earlier versions stored each permission as a boolean
+export function migratePermissions(
+  stored: Partial<Record<keyof ClaudianPermissions, PermissionMode | boolean>> | undefined
+): ClaudianPermissions {
+  const permissions: ClaudianPermissions = { ...DEFAULT_SETTINGS.permissions };
+  if (!stored) return permissions;
+  for (const key of Object.keys(permissions) as Array<keyof ClaudianPermissions>) {
+    const value = stored[key];
+    if (typeof value === "boolean") {
+      permissions[key] = value ? "allow" : "deny";
+    } else if (value === "allow" || value === "ask" || value === "deny") {
+      permissions[key] = value;
+    }
+  }
+  return permissions;
+}
+
 export function buildToolsList(settings: ClaudianSettings): string[] {
+  const { permissions } = settings;
+  const allows = (operation: FolderRuleOperation) =>
+    settings.folderRules.some((r) => r.operation === operation && r.effect === "allow");
   const tools: string[] = ["Read"];
 
-  if (settings.permissions.listVaultStructure) {
+  if (permissions.listVaultStructure !== "deny" || allows("list")) {
     tools.push("Glob", "Grep", "LS");
   }
 
-  if (settings.permissions.editCurrentFile || settings.permissions.editAnyFile) {
+  if (
+    permissions.editCurrentFile !== "deny" ||
+    permissions.editAnyFile !== "deny" ||
+    allows("edit")
+  ) {
     tools.push("Edit");
   }
 
-  if (settings.permissions.editAnyFile || settings.permissions.createFiles) {
+  if (permissions.editAnyFile !== "deny" || permissions.createFiles !== "deny" || allows("create")) {
     tools.push("Write");
   }
 
@@ -51,15 +152,23 @@ export function buildPermissionInstructions(
   settings: ClaudianSettings,
   currentFilePath: string | null
 ): string {
+  const { permissions } = settings;
   const lines: string[] = [];
+  const askSuffix = " (each use requires the user's approval; if denied, do not retry)";
 
   lines.push("## Permissions");
   lines.push("");
   lines.push("You have the following permissions in this vault:");
   lines.push("");
 
-  if (settings.permissions.readVault) {
+  if (permissions.readVault === "allow") {
     lines.push(`- Read files: YES (any file in the vault)`);
+  } else if (permissions.readVault === "ask") {
+    lines.push(
+      currentFilePath
+        ? `- Read files: ASK — you may read the currently active file (${currentFilePath}) freely; reading any other file requires the user's approval`
+        : `- Read files: ASK — reading any file requires the user's approval`
+    );
   } else if (currentFilePath) {
     lines.push(
       `- Read files: RESTRICTED — you may only read the currently active file: ${currentFilePath}`
@@ -68,18 +177,30 @@ export function buildPermissionInstructions(
     lines.push(`- Read files: RESTRICTED — no file is currently active, you may not read any files`);
   }
 
-  if (settings.permissions.listVaultStructure) {
+  if (permissions.listVaultStructure === "allow") {
     lines.push(`- List vault structure (Glob, Grep, LS): YES`);
+  } else if (permissions.listVaultStructure === "ask") {
+    lines.push(`- List vault structure (Glob, Grep, LS): ASK${askSuffix}`);
   } else {
     lines.push(`- List vault structure (Glob, Grep, LS): NO`);
   }
+  if (permissions.listVaultStructure !== "deny" && permissions.readVault !== "allow") {
+    lines.push(`  Grep shows file contents, so it is held to the read permission above as well`);
+  }
 
-  if (settings.permissions.editAnyFile) {
+  if (permissions.editAnyFile === "allow") {
     lines.push(`- Edit any file: YES`);
-  } else if (settings.permissions.editCurrentFile) {
+  } else if (permissions.editAnyFile === "ask") {
+    lines.push(
+      permissions.editCurrentFile === "allow" && currentFilePath
+        ? `- Edit files: you may edit the currently active file (${currentFilePath}) freely; editing any other file is ASK${askSuffix}`
+        : `- Edit any file: ASK${askSuffix}`
+    );
+  } else if (permissions.editCurrentFile !== "deny") {
+    const suffix = permissions.editCurrentFile === "ask" ? askSuffix : "";
     if (currentFilePath) {
       lines.push(
-        `- Edit files: RESTRICTED — you may only edit the currently active file: ${currentFilePath}`
+        `- Edit files: RESTRICTED — you may only edit the currently active file: ${currentFilePath}${suffix}`
       );
     } else {
       lines.push(`- Edit files: RESTRICTED — no file is currently active`);
@@ -88,12 +209,26 @@ export function buildPermissionInstructions(
     lines.push(`- Edit files: NO`);
   }
 
-  if (settings.permissions.createFiles) {
+  if (permissions.createFiles === "allow") {
     lines.push(`- Create new files: YES`);
+  } else if (permissions.createFiles === "ask") {
+    lines.push(`- Create new files: ASK${askSuffix}`);
   } else {
     lines.push(`- Create new files: NO`);
   }
 
+  const folderRules = settings.folderRules.filter((r) => normalizeGlob(r.pattern));
+  if (folderRules.length > 0) {
+    lines.push("");
+    lines.push("Folder rules (paths relative to the vault root; these override the permissions above, and NEVER always wins):");
+    lines.push("");
+    for (const rule of folderRules) {
+      const operation = FOLDER_RULE_OPERATIONS[rule.operation];
+      const verdict = rule.effect === "allow" ? "ALLOWED" : "NEVER";
+      lines.push(`- ${operation} \`${normalizeGlob(rule.pattern)}\`: ${verdict}`);
+    }
+  }
+
   lines.push("");
   lines.push(
     "Strictly respect these permissions. Do not attempt actions outside what is permitted above."
@@ -144,7 +279,7 @@ export class ClaudianSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("Clear chat on start")
-      .setDesc("Automatically clear the chat history and session when Obsidian starts.")
+      .setDesc("Automatically clear the active conversation's history and session when Obsidian starts.")
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.clearChatOnStart)
@@ -154,79 +289,611 @@ export class ClaudianSettingTab extends PluginSettingTab {
           })
       );
 
-    new Setting(containerEl).setName("Permissions").setHeading();
+    this.addLimitSetting(
+      containerEl,
+      "chatHistoryLimitMb",
+      "Chat history limit",
+      "Megabytes of chat history to keep in the plugin folder. Beyond that the least recently used conversations are deleted, archived ones first; the open one is always kept. Leave at 0 for no limit."
+    );
 
     new Setting(containerEl)
-      .setName("Read entire vault")
-      .setDesc("Read any file in the vault, not just the currently active file.")
+      .setName("Review changes")
+      .setDesc(
+        "After each run, show a diff of every file Claude edited or created, with accept and reject controls per hunk and per file."
+      )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.permissions.readVault)
+          .setValue(this.plugin.settings.reviewChanges)
           .onChange(async (value) => {
-            this.plugin.settings.permissions.readVault = value;
+            this.plugin.settings.reviewChanges = value;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName("List vault structure")
-      .setDesc("Search and list files in your vault using glob, grep, and ls.")
-      .addToggle((toggle) =>
-        toggle
-          .setValue(this.plugin.settings.permissions.listVaultStructure)
+      .setName("Transcript detail")
+      .setDesc(
+        "Compact shows Claude's thinking and each tool call collapsed to one line; verbose shows them open with the tool input and result."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ compact: "Compact", verbose: "Verbose" })
+          .setValue(this.plugin.settings.transcriptDetail)
           .onChange(async (value) => {
-            this.plugin.settings.permissions.listVaultStructure = value;
+            this.plugin.settings.transcriptDetail = value as ClaudianSettings["transcriptDetail"];
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName("Edit current file")
-      .setDesc("Edit the currently active file.")
-      .addToggle((toggle) =>
-        toggle
-          .setValue(this.plugin.settings.permissions.editCurrentFile)
+      .setName("Retries")
+      .setDesc(
+        "How many times to retry a run that fails because Claude is rate limited, overloaded or unreachable. Set to 0 to turn retries off."
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, 5, 1)
+          .setDynamicTooltip()
+          .setValue(this.plugin.settings.retryAttempts)
           .onChange(async (value) => {
-            this.plugin.settings.permissions.editCurrentFile = value;
-            if (!value) {
-              this.plugin.settings.permissions.editAnyFile = false;
-              await this.plugin.saveSettings();
-              this.display();
-            } else {
-              await this.plugin.saveSettings();
-            }
+            this.plugin.settings.retryAttempts = value;
+            await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName("Edit any file")
+      .setName("First retry delay")
+      .setDesc("Seconds to wait before the first retry. Each further retry waits twice as long.")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 60, 1)
+          .setDynamicTooltip()
+          .setValue(this.plugin.settings.retryDelaySeconds)
+          .onChange(async (value) => {
+            this.plugin.settings.retryDelaySeconds = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.addLimitSetting(
+      containerEl,
+      "timeoutMinutes",
+      "Timeout",
+      "Minutes a single request may run before Claude is stopped. Leave at 0 for no limit."
+    );
+    this.addLimitSetting(
+      containerEl,
+      "maxTurns",
+      "Max turns",
+      "How many agent turns Claude may take for a single request (--max-turns). Leave at 0 for no limit."
+    );
+
+    new Setting(containerEl)
+      .setName("Record debug transcripts")
       .setDesc(
-        "Edit any file in the vault (also enables edit current file)."
+        "Save the arguments (including the system prompt), raw output and timings of every CLI process to the transcripts folder inside the plugin folder, for bug reports. The newest 50 are kept; the replay debug transcript command plays one back."
       )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.permissions.editAnyFile)
+          .setValue(this.plugin.settings.debugTranscripts)
+          .onChange(async (value) => {
+            this.plugin.settings.debugTranscripts = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Saved notes").setHeading();
+
+    new Setting(containerEl)
+      .setName("Note folder")
+      .setDesc("Folder for notes made with the save as note button. Leave empty for the vault root.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Qlaude")
+          .setValue(this.plugin.settings.noteFolder)
           .onChange(async (value) => {
-            this.plugin.settings.permissions.editAnyFile = value;
-            if (value) {
-              this.plugin.settings.permissions.editCurrentFile = true;
-            }
+            this.plugin.settings.noteFolder = value.trim();
             await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Chat log note")
+      .setDesc(
+        "Path of a note that every chat message and reply is appended to as it finishes, created on first use. Leave empty to keep no log."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Qlaude/Chat log.md")
+          .setValue(this.plugin.settings.chatLogNote)
+          .onChange(async (value) => {
+            this.plugin.settings.chatLogNote = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Usage and budgets").setHeading();
+
+    this.addBudgetSetting(
+      containerEl,
+      "dailyBudgetUsd",
+      "Daily budget",
+      "Spending limit in USD per calendar day. Leave at 0 for no limit."
+    );
+    this.addBudgetSetting(
+      containerEl,
+      "monthlyBudgetUsd",
+      "Monthly budget",
+      "Spending limit in USD per calendar month. Leave at 0 for no limit."
+    );
+
+    new Setting(containerEl)
+      .setName("When a budget is reached")
+      .setDesc("Warn once and keep running, or refuse to start new runs until the period ends or the budget is raised.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ warn: "Warn", block: "Block new runs" })
+          .setValue(this.plugin.settings.budgetAction)
+          .onChange(async (value) => {
+            this.plugin.settings.budgetAction = value as ClaudianSettings["budgetAction"];
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Permissions").setHeading();
+
+    this.addPermissionSetting(
+      containerEl,
+      "readVault",
+      "Read entire vault",
+      "Read any file in the vault, not just the currently active file."
+    );
+    this.addPermissionSetting(
+      containerEl,
+      "listVaultStructure",
+      "List vault structure",
+      "Search and list files in your vault using glob, grep, and ls."
+    );
+    this.addPermissionSetting(
+      containerEl,
+      "editCurrentFile",
+      "Edit current file",
+      "Edit the currently active file."
+    );
+    this.addPermissionSetting(
+      containerEl,
+      "editAnyFile",
+      "Edit any file",
+      "Edit any file in the vault (also covers the current file)."
+    );
+    this.addPermissionSetting(
+      containerEl,
+      "createFiles",
+      "Create files",
+      "Create new files in the vault."
+    );
+
+    new Setting(containerEl).setName("Folder rules").setHeading();
+    new Setting(containerEl).setDesc(
+      `Allow or deny an operation for paths matching a vault-relative glob, e.g. "Projects/**" or "${this.app.vault.configDir}/**". ` +
+        "Rules override the permissions above, and a deny always wins over an allow."
+    );
+
+    this.plugin.settings.folderRules.forEach((rule, index) => {
+      this.addFolderRuleSetting(containerEl, rule, index);
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add rule").onClick(async () => {
+        this.plugin.settings.folderRules.push({ pattern: "", operation: "read", effect: "deny" });
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+
+    new Setting(containerEl).setName("Saved prompts").setHeading();
+    new Setting(containerEl).setDesc(
+      "Quick actions you run often. Each one gets a command, so you can bind a hotkey to it. " +
+        "The prompt may use {{file}}, {{selection}}, {{date}}, {{date:FORMAT}}, {{time}} and {{frontmatter.key}}."
+    );
+
+    this.plugin.settings.savedPrompts.forEach((prompt, index) => {
+      this.addSavedPromptSetting(containerEl, prompt, index);
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add prompt").onClick(async () => {
+        this.plugin.settings.savedPrompts.push(newSavedPrompt());
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+
+    new Setting(containerEl).setName("Batch actions").setHeading();
+
+    new Setting(containerEl)
+      .setName("Parallel runs")
+      .setDesc("How many notes a batch quick action works on at the same time.")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 8, 1)
+          .setDynamicTooltip()
+          .setValue(this.plugin.settings.batchConcurrency)
+          .onChange(async (value) => {
+            this.plugin.settings.batchConcurrency = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Report folder")
+      .setDesc("Folder for the summary note written when a batch finishes. Leave empty for the vault root.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Qlaude")
+          .setValue(this.plugin.settings.batchReportFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.batchReportFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Automations").setHeading();
+    new Setting(containerEl).setDesc(
+      "Run a saved prompt every day at a set time, when a note is created or modified, or when Obsidian starts. " +
+        "The triggering note is the active file of the run. Nobody is there to approve tool calls, so Ask counts as Off."
+    );
+
+    this.plugin.settings.automations.forEach((automation, index) => {
+      this.addAutomationSetting(containerEl, automation, index);
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add automation").onClick(async () => {
+        this.plugin.settings.automations.push(newAutomation());
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+  }
+
+  private addSavedPromptSetting(containerEl: HTMLElement, prompt: SavedPrompt, index: number): void {
+    const promptEl = containerEl.createDiv("qlaude-saved-prompt");
+    const save = async () => {
+      await this.plugin.saveSettings();
+      this.plugin.registerSavedPromptCommands();
+    };
+
+    new Setting(promptEl)
+      .addText((text) =>
+        text
+          .setPlaceholder("Name")
+          .setValue(prompt.name)
+          .onChange(async (value) => {
+            prompt.name = value;
+            await save();
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(`Model (${this.plugin.settings.model})`)
+          .setValue(prompt.model)
+          .onChange(async (value) => {
+            prompt.model = value.trim();
+            await save();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Remove prompt")
+          .onClick(async () => {
+            this.plugin.settings.savedPrompts.splice(index, 1);
+            await save();
             this.display();
           })
       );
 
+    new Setting(promptEl).setClass("qlaude-saved-prompt__body").addTextArea((text) => {
+      text
+        .setPlaceholder("Summarise {{file}} into a TL;DR at the top of the note")
+        .setValue(prompt.body)
+        .onChange(async (value) => {
+          prompt.body = value;
+          await save();
+        });
+      text.inputEl.rows = 3;
+    });
+
+    this.addPermissionOverrides(promptEl, prompt.permissions, save);
+
+    const { timeoutMinutes, maxTurns } = this.plugin.settings;
+    new Setting(promptEl)
+      .setName("Limits")
+      .setDesc("Leave empty to use the timeout and max turns from above; 0 means no limit.")
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
+        text
+          .setPlaceholder(`Timeout (${timeoutMinutes > 0 ? `${timeoutMinutes} min` : "none"})`)
+          .setValue(prompt.timeoutMinutes != null ? String(prompt.timeoutMinutes) : "")
+          .onChange(async (value) => {
+            prompt.timeoutMinutes = parseLimit(value);
+            await save();
+          });
+      })
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
+        text
+          .setPlaceholder(`Max turns (${maxTurns > 0 ? maxTurns : "none"})`)
+          .setValue(prompt.maxTurns != null ? String(prompt.maxTurns) : "")
+          .onChange(async (value) => {
+            prompt.maxTurns = parseLimit(value);
+            await save();
+          });
+      });
+
+    new Setting(promptEl)
+      .setName("Replace selection with result")
+      .setDesc("When text is selected, write Claude's reply over it. Edit permissions are turned off for the run.")
+      .addToggle((toggle) =>
+        toggle.setValue(prompt.replaceSelection).onChange(async (value) => {
+          prompt.replaceSelection = value;
+          await save();
+        })
+      );
+  }
+
+  private addBudgetSetting(
+    containerEl: HTMLElement,
+    key: "dailyBudgetUsd" | "monthlyBudgetUsd",
+    name: string,
+    desc: string
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
+        text.inputEl.step = "0.01";
+        text
+          .setPlaceholder("0")
+          .setValue(this.plugin.settings[key] > 0 ? String(this.plugin.settings[key]) : "")
+          .onChange(async (value) => {
+            const amount = parseFloat(value);
+            this.plugin.settings[key] = Number.isFinite(amount) && amount > 0 ? amount : 0;
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  private addLimitSetting(
+    containerEl: HTMLElement,
+    key: "timeoutMinutes" | "maxTurns" | "chatHistoryLimitMb",
+    name: string,
+    desc: string
+  ): void {
     new Setting(containerEl)
-      .setName("Create files")
-      .setDesc("Create new files in the vault.")
+      .setName(name)
+      .setDesc(desc)
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
+        text
+          .setPlaceholder("0")
+          .setValue(this.plugin.settings[key] > 0 ? String(this.plugin.settings[key]) : "")
+          .onChange(async (value) => {
+            this.plugin.settings[key] = parseLimit(value) ?? 0;
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  // One dropdown per permission; "default" leaves the main setting in force
+  private addPermissionOverrides(
+    containerEl: HTMLElement,
+    permissions: Partial<ClaudianPermissions>,
+    save: () => Promise<void>
+  ): void {
+    const overrides = new Setting(containerEl)
+      .setClass("qlaude-saved-prompt__permissions")
+      .setName("Permissions");
+    for (const key of Object.keys(PERMISSION_LABELS) as Array<keyof ClaudianPermissions>) {
+      const label = PERMISSION_LABELS[key];
+      overrides.addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            "": `${label}: default`,
+            deny: `${label}: off`,
+            ask: `${label}: ask`,
+            allow: `${label}: allow`,
+          })
+          .setValue(permissions[key] ?? "")
+          .onChange(async (value) => {
+            if (value) permissions[key] = value as PermissionMode;
+            else delete permissions[key];
+            await save();
+          })
+      );
+    }
+  }
+
+  private addAutomationSetting(
+    containerEl: HTMLElement,
+    automation: Automation,
+    index: number
+  ): void {
+    const automationEl = containerEl.createDiv("qlaude-saved-prompt qlaude-automation");
+    const save = () => this.plugin.saveSettings();
+
+    new Setting(automationEl)
+      .addText((text) =>
+        text
+          .setPlaceholder("Name")
+          .setValue(automation.name)
+          .onChange(async (value) => {
+            automation.name = value;
+            await save();
+          })
+      )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.permissions.createFiles)
+          .setTooltip("Enabled")
+          .setValue(automation.enabled)
           .onChange(async (value) => {
-            this.plugin.settings.permissions.createFiles = value;
+            automation.enabled = value;
+            await save();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("play")
+          .setTooltip("Run now on the active note")
+          .onClick(() => this.plugin.automations?.runNow(automation))
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("history")
+          .setTooltip("Run history")
+          .onClick(() =>
+            new AutomationHistoryModal(
+              this.app,
+              automation.name || "Untitled",
+              this.plugin.automationHistory,
+              automation.id
+            ).open()
+          )
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Remove automation")
+          .onClick(async () => {
+            this.plugin.settings.automations.splice(index, 1);
+            await this.plugin.automationHistory.clear(automation.id);
+            await save();
+            this.display();
+          })
+      );
+
+    new Setting(automationEl).setName("Saved prompt").addDropdown((dropdown) => {
+      dropdown.addOption("", "Choose a prompt…");
+      for (const prompt of this.plugin.settings.savedPrompts) {
+        dropdown.addOption(prompt.id, prompt.name || "Untitled");
+      }
+      dropdown.setValue(automation.promptId).onChange(async (value) => {
+        automation.promptId = value;
+        await save();
+      });
+    });
+
+    const triggerSetting = new Setting(automationEl).setName("Run").addDropdown((dropdown) =>
+      dropdown
+        .addOptions(AUTOMATION_TRIGGERS)
+        .setValue(automation.trigger)
+        .onChange(async (value) => {
+          automation.trigger = value as AutomationTrigger;
+          await save();
+          this.display();
+        })
+    );
+    if (automation.trigger === "schedule") {
+      triggerSetting.addText((text) =>
+        text
+          .setPlaceholder("18:00")
+          .setValue(automation.time)
+          .onChange(async (value) => {
+            automation.time = value.trim();
+            await save();
+          })
+      );
+    }
+    if (automation.trigger === "create" || automation.trigger === "modify") {
+      triggerSetting
+        .addText((text) =>
+          text
+            .setPlaceholder("In folder (any)")
+            .setValue(automation.folder)
+            .onChange(async (value) => {
+              automation.folder = value.trim();
+              await save();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("With tag (any)")
+            .setValue(automation.tag)
+            .onChange(async (value) => {
+              automation.tag = value.trim();
+              await save();
+            })
+        );
+    }
+
+    this.addPermissionOverrides(automationEl, automation.permissions, save);
+  }
+
+  private addFolderRuleSetting(containerEl: HTMLElement, rule: FolderRule, index: number): void {
+    new Setting(containerEl)
+      .setClass("qlaude-folder-rule")
+      .addText((text) =>
+        text
+          .setPlaceholder("Folder/**")
+          .setValue(rule.pattern)
+          .onChange(async (value) => {
+            rule.pattern = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(FOLDER_RULE_OPERATIONS)
+          .setValue(rule.operation)
+          .onChange(async (value) => {
+            rule.operation = value as FolderRuleOperation;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ allow: "Allow", deny: "Deny" })
+          .setValue(rule.effect)
+          .onChange(async (value) => {
+            rule.effect = value as FolderRuleEffect;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Remove rule")
+          .onClick(async () => {
+            this.plugin.settings.folderRules.splice(index, 1);
             await this.plugin.saveSettings();
+            this.display();
           })
       );
   }
 
+  private addPermissionSetting(
+    containerEl: HTMLElement,
+    key: keyof ClaudianPermissions,
+    name: string,
+    desc: string
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ deny: "Off", ask: "Ask", allow: "Allow" })
+          .setValue(this.plugin.settings.permissions[key])
+          .onChange(async (value) => {
+            this.plugin.settings.permissions[key] = value as PermissionMode;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
 }
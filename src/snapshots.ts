@@ -0,0 +1,109 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export interface FileSnapshot {
+  absolutePath: string;
+  // null means the file did not exist before the run, so undo deletes it
+  content: Buffer | null;
+}
+
+const WRITE_TOOLS = ["Edit", "Write"];
+
+export function isWriteTool(name: string): boolean {
+  return WRITE_TOOLS.includes(name);
+}
+
+export function resolveToolPath(vaultPath: string, filePath: string): string {
+  return path.isAbsolute(filePath)
+    ? path.normalize(filePath)
+    : path.resolve(vaultPath, filePath);
+}
+
+export function captureSnapshot(absolutePath: string): FileSnapshot {
+  try {
+    return { absolutePath, content: fs.readFileSync(absolutePath) };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return { absolutePath, content: null };
+    }
+    throw err;
+  }
+}
+
+export async function restoreSnapshot(snapshot: FileSnapshot): Promise<void> {
+  if (snapshot.content === null) {
+    try {
+      await fs.promises.unlink(snapshot.absolutePath);
+    } catch (err) {
+      // Already gone is as good as undone
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+    return;
+  }
+  await fs.promises.mkdir(path.dirname(snapshot.absolutePath), { recursive: true });
+  await fs.promises.writeFile(snapshot.absolutePath, snapshot.content);
+}
+
+/**
+ * Records the pre-run contents of every file touched by Edit/Write tool calls,
+ * grouped per turn, so a turn can be rolled back locally without asking Claude.
+ */
+export class UndoStack {
+  private turns: Map<string, FileSnapshot>[] = [];
+  private current: Map<string, FileSnapshot> | null = null;
+
+  constructor(private vaultPath: string) {}
+
+  beginTurn(): void {
+    this.current = new Map();
+  }
+
+  // Must run before the CLI executes the tool: from onBeforeToolUse, or from
+  // onToolUse when there is no permission prompt to hold the tool back
+  capture(toolName: string, input: Record<string, unknown>): void {
+    if (!this.current || !isWriteTool(toolName)) return;
+    const filePath = input.file_path;
+    if (typeof filePath !== "string" || !filePath) return;
+
+    const absolutePath = resolveToolPath(this.vaultPath, filePath);
+    // Only the first snapshot in a turn reflects the true pre-turn state
+    if (this.current.has(absolutePath)) return;
+
+    try {
+      this.current.set(absolutePath, captureSnapshot(absolutePath));
+    } catch (err) {
+      console.error(`Claudian: Could not snapshot ${absolutePath}`, err);
+    }
+  }
+
+  /** Closes the current turn and returns the snapshots it captured. */
+  endTurn(): FileSnapshot[] {
+    const turn = this.current;
+    this.current = null;
+    if (!turn || turn.size === 0) return [];
+    this.turns.push(turn);
+    return [...turn.values()];
+  }
+
+  get canUndo(): boolean {
+    return this.turns.length > 0;
+  }
+
+  /** Restores the most recent turn and returns the vault-relative paths touched. */
+  async undo(): Promise<string[]> {
+    const turn = this.turns.pop();
+    if (!turn) return [];
+
+    const restored: string[] = [];
+    for (const snapshot of turn.values()) {
+      await restoreSnapshot(snapshot);
+      restored.push(path.relative(this.vaultPath, snapshot.absolutePath));
+    }
+    return restored;
+  }
+
+  clear(): void {
+    this.turns = [];
+    this.current = null;
+  }
+}
@@ -0,0 +1,108 @@
+import { App, Component, MarkdownRenderer } from "obsidian";
+
+// How often a streaming block re-renders at most
+const RENDER_INTERVAL_MS = 80;
+
+/**
+ * End of the Markdown in `text` that later text can no longer change: the
+ * start of the last top-level block that follows a blank line outside a code
+ * fence. Scanning starts at `from`, which must itself be such a boundary.
+ */
+export function findStableEnd(text: string, from: number): number {
+  let end = from;
+  let fence: string | null = null;
+  let previousBlank = false;
+  let pos = from;
+
+  for (;;) {
+    const newline = text.indexOf("\n", pos);
+    // The last line may still be growing
+    if (newline === -1) break;
+    const line = text.slice(pos, newline);
+    const trimmed = line.trimStart();
+
+    if (fence) {
+      if (trimmed.startsWith(fence) && trimmed.slice(fence.length).trim() === "") fence = null;
+      previousBlank = false;
+    } else if (trimmed === "") {
+      previousBlank = true;
+    } else {
+      // An indented line after a blank one may continue a list item
+      if (previousBlank && line === trimmed) end = pos;
+      const opening = /^(`{3,}|~{3,})/.exec(trimmed);
+      if (opening) fence = opening[1];
+      previousBlank = false;
+    }
+    pos = newline + 1;
+  }
+
+  return end;
+}
+
+/**
+ * Renders Markdown that arrives in pieces. Finished blocks are rendered once
+ * and left alone; only the unfinished tail is rendered again as text comes
+ * in, at most every RENDER_INTERVAL_MS, so long replies stay cheap.
+ */
+export class StreamingMarkdown {
+  private text = "";
+  // Length of the text already rendered as finished blocks
+  private stableEnd = 0;
+  private tailEl: HTMLElement;
+  private timer: number | null = null;
+
+  constructor(
+    private app: App,
+    readonly containerEl: HTMLElement,
+    private sourcePath: string,
+    private component: Component,
+    // Called after each render, e.g. to keep the output scrolled to the bottom
+    private onRender: () => void
+  ) {
+    this.tailEl = containerEl.createDiv("qlaude-text-block__part");
+  }
+
+  get markdown(): string {
+    return this.text;
+  }
+
+  append(text: string): void {
+    this.text += text;
+    this.timer ??= window.setTimeout(() => {
+      this.timer = null;
+      this.render();
+    }, RENDER_INTERVAL_MS);
+  }
+
+  /** Renders anything still pending; call once no more text will arrive. */
+  finish(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+      this.render();
+    }
+    if (this.stableEnd === this.text.length) this.tailEl.remove();
+  }
+
+  private render(): void {
+    const end = findStableEnd(this.text, this.stableEnd);
+    if (end > this.stableEnd) {
+      const blockEl = this.containerEl.createDiv("qlaude-text-block__part");
+      this.containerEl.insertBefore(blockEl, this.tailEl);
+      this.renderInto(blockEl, this.text.slice(this.stableEnd, end));
+      this.stableEnd = end;
+    }
+
+    // A fresh element, so a render of the old tail still in flight can't land in it
+    const tailEl = this.containerEl.createDiv("qlaude-text-block__part");
+    this.tailEl.replaceWith(tailEl);
+    this.tailEl = tailEl;
+    const tail = this.text.slice(this.stableEnd);
+    if (tail) this.renderInto(tailEl, tail);
+    this.onRender();
+  }
+
+  private renderInto(el: HTMLElement, markdown: string): void {
+    void MarkdownRenderer.render(this.app, markdown, el, this.sourcePath, this.component);
+  }
+}
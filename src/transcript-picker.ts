@@ -0,0 +1,27 @@
+import * as path from "path";
+import { App, FuzzySuggestModal } from "obsidian";
+
+/** Lists recorded debug transcripts, newest first, and hands back the chosen file. */
+export class TranscriptPickerModal extends FuzzySuggestModal<string> {
+  constructor(
+    app: App,
+    private files: string[],
+    private onChoose: (file: string) => void
+  ) {
+    super(app);
+    this.setPlaceholder("Choose a transcript to replay");
+  }
+
+  getItems(): string[] {
+    return this.files;
+  }
+
+  // Names start with the time the process started, e.g. "2024-05-01-142233-a1b2c3"
+  getItemText(file: string): string {
+    return path.basename(file, ".jsonl");
+  }
+
+  onChooseItem(file: string): void {
+    this.onChoose(file);
+  }
+}
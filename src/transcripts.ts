@@ -0,0 +1,259 @@
+import type { ChildProcess } from "child_process";
+import { randomBytes } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { moment } from "obsidian";
+import {
+  ClaudeRunner,
+  ClaudeRunnerCallbacks,
+  LineOutcome,
+  StderrBuffer,
+  claudeError,
+  exitError,
+  newStreamState,
+  parseAndDispatch,
+} from "./claude-runner";
+
+// Older transcripts are deleted when a new one starts
+const MAX_TRANSCRIPTS = 50;
+// Replays skip over longer pauses, e.g. a chat process idling between messages
+const MAX_REPLAY_GAP_MS = 1000;
+
+export interface TranscriptStart {
+  type: "start";
+  // Epoch milliseconds; the other entries count from here
+  at: number;
+  binary: string;
+  args: string[];
+  cwd: string;
+  // The -p prompt; null for a chat process, whose messages arrive on stdin
+  prompt: string | null;
+}
+
+// One line per entry in the transcript file; t is milliseconds since the start
+export type TranscriptEntry =
+  | TranscriptStart
+  | { type: "stdout"; t: number; line: string; outcome: LineOutcome }
+  | { type: "stderr"; t: number; text: string }
+  | { type: "stdin"; t: number; line: string }
+  | { type: "exit"; t: number; code: number | null; signal: NodeJS.Signals | null }
+  | { type: "spawnError"; t: number; message: string };
+
+export interface Transcript {
+  file: string;
+  start: TranscriptStart;
+  // Everything after the start entry
+  entries: Exclude<TranscriptEntry, TranscriptStart>[];
+}
+
+/** Writes one process's arguments and output to a transcript file as it runs. */
+export class TranscriptRecorder {
+  private out: fs.WriteStream;
+  private startedAt: number;
+
+  constructor(readonly file: string, start: Omit<TranscriptStart, "type" | "at">) {
+    this.startedAt = Date.now();
+    // Written straight away so a file that can't be created fails here rather than later
+    const entry: TranscriptStart = { type: "start", at: this.startedAt, ...start };
+    fs.writeFileSync(file, JSON.stringify(entry) + "\n", "utf8");
+    this.out = fs.createWriteStream(file, { flags: "a" });
+    this.out.on("error", (err) => console.error("Claudian: Could not write debug transcript", err));
+  }
+
+  /** Records the process's stderr and how it ended, then closes the file. */
+  attach(proc: ChildProcess): void {
+    proc.stderr?.on("data", (chunk: Buffer) =>
+      this.write({ type: "stderr", t: this.elapsed(), text: chunk.toString("utf8") })
+    );
+    proc.on("error", (err) => {
+      this.write({ type: "spawnError", t: this.elapsed(), message: err.message });
+      this.out.end();
+    });
+    proc.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
+      this.write({ type: "exit", t: this.elapsed(), code, signal });
+      this.out.end();
+    });
+  }
+
+  stdout(line: string, outcome: LineOutcome): void {
+    this.write({ type: "stdout", t: this.elapsed(), line, outcome });
+  }
+
+  stdin(line: string): void {
+    this.write({ type: "stdin", t: this.elapsed(), line });
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  private write(entry: TranscriptEntry): void {
+    if (this.out.writable) this.out.write(JSON.stringify(entry) + "\n");
+  }
+}
+
+/**
+ * The debug transcripts folder in the plugin folder. Nothing is recorded
+ * unless `isEnabled` says so; the folder is resolved on each use since the
+ * vault path isn't known until the plugin loads.
+ */
+export class TranscriptStore {
+  constructor(
+    private getFolder: () => string | null,
+    private isEnabled: () => boolean
+  ) {}
+
+  /** Starts a transcript for a process about to be spawned, or returns null when recording is off. */
+  begin(binary: string, args: string[], cwd: string, prompt: string | null): TranscriptRecorder | null {
+    const folder = this.getFolder();
+    if (!folder || !this.isEnabled()) return null;
+    try {
+      fs.mkdirSync(folder, { recursive: true });
+      this.prune(folder);
+      const name = `${moment().format("YYYY-MM-DD-HHmmss")}-${randomBytes(3).toString("hex")}.jsonl`;
+      return new TranscriptRecorder(path.join(folder, name), { binary, args, cwd, prompt });
+    } catch (err) {
+      console.error("Claudian: Could not start debug transcript", err);
+      return null;
+    }
+  }
+
+  /** Transcript files, newest first. */
+  list(): string[] {
+    const folder = this.getFolder();
+    if (!folder || !fs.existsSync(folder)) return [];
+    return fs
+      .readdirSync(folder)
+      .filter((name) => name.endsWith(".jsonl"))
+      .sort()
+      .reverse()
+      .map((name) => path.join(folder, name));
+  }
+
+  /** Reads a transcript; lines that don't parse, e.g. a write cut short, are skipped. */
+  read(file: string): Transcript {
+    const entries: TranscriptEntry[] = [];
+    for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as TranscriptEntry);
+      } catch {
+        // Skipped
+      }
+    }
+    const [start, ...rest] = entries;
+    if (start?.type !== "start") throw new Error(`${path.basename(file)} is not a Qlaude transcript.`);
+    return {
+      file,
+      start,
+      entries: rest.filter((e): e is Exclude<TranscriptEntry, TranscriptStart> => e.type !== "start"),
+    };
+  }
+
+  private prune(folder: string): void {
+    const names = fs.readdirSync(folder).filter((name) => name.endsWith(".jsonl")).sort();
+    for (const name of names.slice(0, Math.max(0, names.length - MAX_TRANSCRIPTS + 1))) {
+      fs.rmSync(path.join(folder, name), { force: true });
+    }
+  }
+}
+
+export interface ReplayCallbacks extends ClaudeRunnerCallbacks {
+  // The prompt, or a chat message written to the process, before Claude's reply to it
+  onInput: (text: string) => void;
+  // Output that wasn't JSON, which a live run drops silently
+  onInvalidLine: (line: string) => void;
+}
+
+// Text of a stream-json user message as the chat session writes it
+function inputText(line: string): string {
+  try {
+    const message = JSON.parse(line) as { message?: { content?: Array<{ text?: string }> } };
+    return message.message?.content?.map((c) => c.text ?? "").join("\n") ?? line;
+  } catch {
+    return line;
+  }
+}
+
+/**
+ * Plays a recorded run back through the same parser and callbacks as a live
+ * one, keeping its timing (long pauses shortened) but without starting the
+ * CLI. Each turn ends with onDone or onError as it did when recorded; one the
+ * recording left unfinished ends with the error the process exit gives.
+ */
+export function replayTranscript(transcript: Transcript, callbacks: ReplayCallbacks): ClaudeRunner {
+  const { start, entries } = transcript;
+  const modelIndex = start.args.indexOf("--model");
+  const model = modelIndex === -1 ? "" : start.args[modelIndex + 1] ?? "";
+  const stream = newStreamState();
+  const stderr = new StderrBuffer();
+  // A -p run starts with its turn open; a chat process opens one per message
+  let turnOpen = start.prompt !== null;
+  let index = 0;
+  let timer: number | null = null;
+
+  const turnCallbacks: ClaudeRunnerCallbacks = {
+    ...callbacks,
+    onDone: (usage) => {
+      if (!turnOpen) return;
+      turnOpen = false;
+      callbacks.onDone(usage);
+    },
+    onError: (error) => {
+      if (!turnOpen) return;
+      turnOpen = false;
+      callbacks.onError({ ...error, stderr: error.stderr || stderr.toString() });
+    },
+  };
+
+  const step = () => {
+    timer = null;
+    if (index === 0 && start.prompt !== null) callbacks.onInput(start.prompt);
+    while (index < entries.length) {
+      const entry = entries[index++];
+      switch (entry.type) {
+        case "stdin":
+          turnOpen = true;
+          callbacks.onInput(inputText(entry.line));
+          break;
+        case "stdout":
+          if (parseAndDispatch(entry.line, turnCallbacks, stream, model) === "invalid") {
+            callbacks.onInvalidLine(entry.line);
+          }
+          break;
+        case "stderr":
+          stderr.append(Buffer.from(entry.text, "utf8"));
+          break;
+        case "exit":
+          turnCallbacks.onError(exitError(entry.code, entry.signal, stderr.toString()));
+          break;
+        case "spawnError":
+          turnCallbacks.onError(claudeError("failed", `Failed to start Claude: ${entry.message}`));
+          break;
+      }
+
+      const next = entries[index];
+      const gap = next ? Math.min(MAX_REPLAY_GAP_MS, next.t - entry.t) : 0;
+      if (gap > 0) {
+        timer = window.setTimeout(step, gap);
+        return;
+      }
+    }
+    turnCallbacks.onError(
+      claudeError("failed", "The transcript ends here; the run was still going when it was recorded.")
+    );
+  };
+
+  timer = window.setTimeout(step, 0);
+
+  return {
+    kill: () => {
+      turnOpen = false;
+      index = entries.length;
+      if (timer !== null) {
+        window.clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,240 @@
+import { Notice, moment } from "obsidian";
+import type { RunUsage } from "./claude-runner";
+import type { DataStore } from "./data-store";
+import type { ClaudianSettings } from "./settings";
+
+export type UsageSource = "quick" | "chat" | "batch" | "automation";
+
+export interface UsageTotals {
+  runs: number;
+  turns: number;
+  costUsd: number;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+export interface SessionUsage extends UsageTotals {
+  source: UsageSource;
+  model: string;
+  lastUsedAt: number;
+}
+
+export interface DayUsage {
+  total: UsageTotals;
+  models: Record<string, UsageTotals>;
+  // Keyed by CLI session ID
+  sessions: Record<string, SessionUsage>;
+}
+
+export interface UsageData {
+  // Keyed by local date, "YYYY-MM-DD"
+  _usage?: Record<string, DayUsage>;
+}
+
+// Days kept in the ledger
+const RETENTION_DAYS = 400;
+const DAY_FORMAT = "YYYY-MM-DD";
+
+export function emptyTotals(): UsageTotals {
+  return {
+    runs: 0,
+    turns: 0,
+    costUsd: 0,
+    durationMs: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+  };
+}
+
+export function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.runs += source.runs;
+  target.turns += source.turns;
+  target.costUsd += source.costUsd;
+  target.durationMs += source.durationMs;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cacheReadTokens += source.cacheReadTokens;
+  target.cacheCreationTokens += source.cacheCreationTokens;
+}
+
+function totalsOf(usage: RunUsage): UsageTotals {
+  return {
+    runs: 1,
+    turns: usage.turns,
+    costUsd: usage.costUsd,
+    durationMs: usage.durationMs,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cacheReadTokens: usage.cacheReadTokens,
+    cacheCreationTokens: usage.cacheCreationTokens,
+  };
+}
+
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(1)}k`;
+  return `${(count / 1_000_000).toFixed(2)}M`;
+}
+
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd < 1 ? 4 : 2)}`;
+}
+
+/** One-line summary for the status line, e.g. "2 turns · $0.0042 · 1.2k in / 340 out · 3.1s". */
+export function formatUsage(usage: RunUsage): string {
+  const parts = [
+    `${usage.turns} turn${usage.turns === 1 ? "" : "s"}`,
+    formatCost(usage.costUsd),
+    `${formatTokens(usage.inputTokens)} in / ${formatTokens(usage.outputTokens)} out`,
+  ];
+  const cached = usage.cacheReadTokens + usage.cacheCreationTokens;
+  if (cached > 0) {
+    parts.push(
+      `cache ${formatTokens(usage.cacheReadTokens)} read / ${formatTokens(usage.cacheCreationTokens)} written`
+    );
+  }
+  if (usage.durationMs > 0) parts.push(`${(usage.durationMs / 1000).toFixed(1)}s`);
+  return parts.join(" · ");
+}
+
+// Adds a finished run to `days` and drops days past the retention period
+function addRun(
+  days: Record<string, DayUsage>,
+  source: UsageSource,
+  usage: RunUsage,
+  at: number
+): Record<string, DayUsage> {
+  const key = moment(at).format(DAY_FORMAT);
+  const day = (days[key] ??= { total: emptyTotals(), models: {}, sessions: {} });
+  const totals = totalsOf(usage);
+
+  addTotals(day.total, totals);
+  const model = usage.model || "unknown";
+  addTotals((day.models[model] ??= emptyTotals()), totals);
+  if (usage.sessionId) {
+    const session = (day.sessions[usage.sessionId] ??= {
+      ...emptyTotals(),
+      source,
+      model,
+      lastUsedAt: at,
+    });
+    addTotals(session, totals);
+    session.lastUsedAt = at;
+  }
+
+  const cutoff = moment(at).subtract(RETENTION_DAYS, "days").format(DAY_FORMAT);
+  for (const old of Object.keys(days).filter((d) => d < cutoff)) delete days[old];
+  return days;
+}
+
+/**
+ * Running totals of every finished run, per day and within each day per model
+ * and per session, kept in data.json. A copy stays in memory so budgets can be
+ * checked synchronously before a run starts; writes go through the shared
+ * DataStore so nothing saved in between is lost.
+ */
+export class UsageLedger {
+  private days: Record<string, DayUsage> = {};
+  private listeners: Set<() => void> = new Set();
+  // Budget period last warned about, so a warning shows once per day or month
+  private warnedFor: string | null = null;
+
+  constructor(private data: DataStore<UsageData>) {}
+
+  async initialize(): Promise<void> {
+    this.days = (await this.data.load())._usage ?? {};
+  }
+
+  getDays(): Record<string, DayUsage> {
+    return this.days;
+  }
+
+  record(source: UsageSource, usage: RunUsage, at = Date.now()): Promise<void> {
+    return this.data
+      .modify((data) => (data._usage = addRun(data._usage ?? {}, source, usage, at)))
+      .then((days) => {
+        this.days = days;
+        this.notify();
+      })
+      .catch((err) => {
+        console.error("Claudian: Could not record usage", err);
+      });
+  }
+
+  async clear(): Promise<void> {
+    await this.data.modify((data) => {
+      delete data._usage;
+    });
+    this.days = {};
+    this.notify();
+  }
+
+  /** Totals for the days from `from` to `to` inclusive, as "YYYY-MM-DD". */
+  totalsBetween(from: string, to: string): UsageTotals {
+    const totals = emptyTotals();
+    for (const [key, day] of Object.entries(this.days)) {
+      if (key >= from && key <= to) addTotals(totals, day.total);
+    }
+    return totals;
+  }
+
+  spentToday(): number {
+    const today = moment().format(DAY_FORMAT);
+    return this.totalsBetween(today, today).costUsd;
+  }
+
+  spentThisMonth(): number {
+    const now = moment();
+    return this.totalsBetween(now.clone().startOf("month").format(DAY_FORMAT), now.format(DAY_FORMAT))
+      .costUsd;
+  }
+
+  /**
+   * Checks the daily and monthly budgets before a run. Returns why the run
+   * must not start when a budget is spent and set to block; when set to warn,
+   * shows a notice once per period and lets the run go ahead.
+   */
+  blockedByBudget(settings: ClaudianSettings): string | null {
+    const checks: Array<{ period: string; label: string; spent: number; budget: number }> = [
+      {
+        period: `day:${moment().format(DAY_FORMAT)}`,
+        label: "daily",
+        spent: this.spentToday(),
+        budget: settings.dailyBudgetUsd,
+      },
+      {
+        period: `month:${moment().format("YYYY-MM")}`,
+        label: "monthly",
+        spent: this.spentThisMonth(),
+        budget: settings.monthlyBudgetUsd,
+      },
+    ];
+
+    for (const { period, label, spent, budget } of checks) {
+      if (budget <= 0 || spent < budget) continue;
+      const message = `Qlaude ${label} budget of ${formatCost(budget)} reached (${formatCost(spent)} spent).`;
+      if (settings.budgetAction === "block") {
+        return `${message} Raise the budget in the settings to run Claude again.`;
+      }
+      if (this.warnedFor !== period) {
+        this.warnedFor = period;
+        new Notice(message);
+      }
+    }
+    return null;
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener();
+  }
+}
@@ -0,0 +1,178 @@
+import { ItemView, WorkspaceLeaf, moment } from "obsidian";
+import type ClaudianPlugin from "../main";
+import { ConfirmModal } from "./dialogs";
+import {
+  SessionUsage,
+  UsageTotals,
+  addTotals,
+  emptyTotals,
+  formatCost,
+  formatTokens,
+} from "./usage-ledger";
+
+export const USAGE_VIEW_TYPE = "qlaude-usage";
+
+// Rows in the by-day table
+const DAYS_SHOWN = 30;
+// Rows in the by-session table
+const SESSIONS_SHOWN = 25;
+
+const SOURCE_LABELS: Record<SessionUsage["source"], string> = {
+  quick: "Quick action",
+  chat: "Chat",
+  batch: "Batch",
+  automation: "Automation",
+};
+
+/** Report of the usage ledger: budgets, then spending by day, model and session. */
+export class ClaudianUsageView extends ItemView {
+  private plugin: ClaudianPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ClaudianPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return USAGE_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Qlaude usage";
+  }
+
+  getIcon(): string {
+    return "bar-chart";
+  }
+
+  async onOpen(): Promise<void> {
+    this.contentEl.addClass("qlaude-usage");
+    this.register(this.plugin.usageLedger.onChange(() => this.render()));
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    const ledger = this.plugin.usageLedger;
+    const settings = this.plugin.settings;
+    const days = ledger.getDays();
+    contentEl.empty();
+
+    contentEl.createEl("h2", { text: "Qlaude usage" });
+
+    const budgetsEl = contentEl.createDiv("qlaude-usage__budgets");
+    this.renderBudget(budgetsEl, "Today", ledger.spentToday(), settings.dailyBudgetUsd);
+    this.renderBudget(budgetsEl, "This month", ledger.spentThisMonth(), settings.monthlyBudgetUsd);
+
+    const today = moment();
+    const monthStart = today.clone().startOf("month").format("YYYY-MM-DD");
+
+    contentEl.createEl("h3", { text: `Last ${DAYS_SHOWN} days` });
+    const dayRows: Array<[string, UsageTotals]> = [];
+    for (let i = 0; i < DAYS_SHOWN; i++) {
+      const key = today.clone().subtract(i, "days").format("YYYY-MM-DD");
+      if (days[key]) dayRows.push([key, days[key].total]);
+    }
+    this.renderTable(contentEl, "Day", dayRows);
+
+    const models: Record<string, UsageTotals> = {};
+    const sessions: Record<string, SessionUsage> = {};
+    for (const [key, day] of Object.entries(days)) {
+      if (key < monthStart) continue;
+      for (const [model, totals] of Object.entries(day.models)) {
+        addTotals((models[model] ??= emptyTotals()), totals);
+      }
+      for (const [id, session] of Object.entries(day.sessions)) {
+        const merged = (sessions[id] ??= {
+          ...emptyTotals(),
+          source: session.source,
+          model: session.model,
+          lastUsedAt: session.lastUsedAt,
+        });
+        addTotals(merged, session);
+        merged.lastUsedAt = Math.max(merged.lastUsedAt, session.lastUsedAt);
+      }
+    }
+
+    contentEl.createEl("h3", { text: "By model this month" });
+    this.renderTable(
+      contentEl,
+      "Model",
+      Object.entries(models).sort((a, b) => b[1].costUsd - a[1].costUsd)
+    );
+
+    contentEl.createEl("h3", { text: "Top sessions this month" });
+    const sessionRows = Object.entries(sessions)
+      .sort((a, b) => b[1].costUsd - a[1].costUsd)
+      .slice(0, SESSIONS_SHOWN)
+      .map(([id, session]): [string, UsageTotals] => [
+        `${id.slice(0, 8)} · ${SOURCE_LABELS[session.source]} · ${moment(session.lastUsedAt).format("MMM D HH:mm")}`,
+        session,
+      ]);
+    this.renderTable(contentEl, "Session", sessionRows);
+
+    const footerEl = contentEl.createDiv("qlaude-usage__footer");
+    const clearBtn = footerEl.createEl("button", { text: "Clear usage history", cls: "mod-warning" });
+    clearBtn.addEventListener("click", () => {
+      void new ConfirmModal(
+        this.app,
+        "Clear usage history",
+        "Delete all recorded usage? Budgets start counting from zero again.",
+        "Clear"
+      )
+        .openAndWait()
+        .then((confirmed) => {
+          if (confirmed) void ledger.clear();
+        });
+    });
+  }
+
+  private renderBudget(containerEl: HTMLElement, label: string, spent: number, budget: number): void {
+    const cardEl = containerEl.createDiv("qlaude-usage__budget");
+    cardEl.createDiv({ text: label, cls: "qlaude-usage__budget-label" });
+    cardEl.createDiv({
+      text: budget > 0 ? `${formatCost(spent)} of ${formatCost(budget)}` : formatCost(spent),
+      cls: "qlaude-usage__budget-amount",
+    });
+    if (budget > 0) {
+      const barEl = cardEl.createDiv("qlaude-usage__bar");
+      const fillEl = barEl.createDiv("qlaude-usage__bar-fill");
+      fillEl.setCssStyles({ width: `${Math.min(100, (spent / budget) * 100)}%` });
+      fillEl.toggleClass("is-over", spent >= budget);
+    } else {
+      cardEl.createDiv({ text: "No budget set", cls: "qlaude-usage__budget-none" });
+    }
+  }
+
+  private renderTable(
+    containerEl: HTMLElement,
+    firstColumn: string,
+    rows: Array<[string, UsageTotals]>
+  ): void {
+    if (rows.length === 0) {
+      containerEl.createDiv({ text: "No usage recorded.", cls: "qlaude-usage__empty" });
+      return;
+    }
+    const tableEl = containerEl.createEl("table", { cls: "qlaude-usage__table" });
+    const headEl = tableEl.createEl("thead").createEl("tr");
+    for (const heading of [firstColumn, "Runs", "Turns", "Input", "Output", "Cache read", "Cache write", "Cost"]) {
+      headEl.createEl("th", { text: heading });
+    }
+    const bodyEl = tableEl.createEl("tbody");
+    for (const [label, totals] of rows) {
+      const rowEl = bodyEl.createEl("tr");
+      rowEl.createEl("td", { text: label });
+      rowEl.createEl("td", { text: String(totals.runs) });
+      rowEl.createEl("td", { text: String(totals.turns) });
+      rowEl.createEl("td", { text: formatTokens(totals.inputTokens) });
+      rowEl.createEl("td", { text: formatTokens(totals.outputTokens) });
+      rowEl.createEl("td", { text: formatTokens(totals.cacheReadTokens) });
+      rowEl.createEl("td", { text: formatTokens(totals.cacheCreationTokens) });
+      rowEl.createEl("td", { text: formatCost(totals.costUsd) });
+    }
+  }
+}
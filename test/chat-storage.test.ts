@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ChatData, ChatStorage, Conversation, createFileChatStorage } from "../src/chat-storage";
+import { createDataStore } from "../src/data-store";
+
+let dir: string;
+let folder: string;
+let legacy: ChatData;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "qlaude-chats-"));
+  folder = path.join(dir, "chats");
+  legacy = {};
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function storage(limitBytes = 0): ChatStorage {
+  return createFileChatStorage({
+    getFolder: () => folder,
+    getLimitBytes: () => limitBytes,
+    legacy: createDataStore(
+      () => Promise.resolve(structuredClone(legacy)),
+      (data) => {
+        legacy = structuredClone(data);
+        return Promise.resolve();
+      }
+    ),
+  });
+}
+
+function legacyConversation(id: string, turns: Array<[string, string]>): Conversation {
+  return {
+    id,
+    name: `Conversation ${id}`,
+    sessionId: `session-${id}`,
+    turns: turns.map(([userText, claudeMarkdown]) => ({ userText, claudeMarkdown })),
+    createdAt: 1000,
+    updatedAt: 2000,
+    archived: false,
+  };
+}
+
+describe("chat storage", () => {
+  it("moves conversations out of data.json", async () => {
+    legacy = {
+      _chats: {
+        activeId: "b",
+        conversations: [legacyConversation("a", [["Hi", "Hello"]]), legacyConversation("b", [])],
+      },
+    };
+    const chats = storage();
+
+    const active = await chats.getActive();
+    assert.equal(active.id, "b");
+    assert.deepEqual(
+      (await chats.list()).map((c) => [c.id, c.turnCount]),
+      [["a", 1], ["b", 0]]
+    );
+    assert.deepEqual((await chats.get("a"))?.turns, [{ userText: "Hi", claudeMarkdown: "Hello" }]);
+    assert.deepEqual(legacy, {});
+    assert.ok(fs.existsSync(path.join(folder, "a.json")));
+  });
+
+  it("moves the single conversation of older versions", async () => {
+    legacy = { _chat: { sessionId: "old", turns: [{ userText: "Hi", claudeMarkdown: "Hello" }] } };
+
+    const active = await storage().getActive();
+    assert.equal(active.sessionId, "old");
+    assert.equal(active.turns.length, 1);
+    assert.deepEqual(legacy, {});
+  });
+
+  it("keeps conversations and the active one across restarts", async () => {
+    const first = storage();
+    const conversation = await first.create("Groceries");
+    await first.update(conversation.id, {
+      sessionId: "abc",
+      turns: [{ userText: "What's open?", claudeMarkdown: "- [ ] buy milk" }],
+    });
+    await first.create("Other");
+    await first.setActive(conversation.id);
+
+    const second = storage();
+    const active = await second.getActive();
+    assert.equal(active.name, "Groceries");
+    assert.equal(active.sessionId, "abc");
+    assert.equal(active.turns[0].claudeMarkdown, "- [ ] buy milk");
+  });
+
+  it("rebuilds a lost index from the conversation files", async () => {
+    const first = storage();
+    const conversation = await first.create("Groceries");
+    await first.update(conversation.id, { turns: [{ userText: "Hi", claudeMarkdown: "Hello" }] });
+    fs.rmSync(path.join(folder, "index.json"));
+
+    const list = await storage().list();
+    assert.deepEqual(list.map((c) => [c.name, c.turnCount]), [["Groceries", 1]]);
+  });
+
+  it("deletes the least recently used conversations past the limit", async () => {
+    // Each conversation below takes up about 1 kB per turn
+    const chats = storage(3500);
+    const turns = [{ userText: "x".repeat(500), claudeMarkdown: "y".repeat(300) }];
+    const ids: string[] = [];
+    for (const name of ["Oldest", "Archived", "Newer"]) {
+      const conversation = await chats.create(name);
+      await chats.update(conversation.id, { turns });
+      ids.push(conversation.id);
+    }
+    await chats.update(ids[1], { archived: true });
+    const active = await chats.create("Active");
+
+    // Archived goes first even though it was used more recently
+    await chats.update(active.id, { turns });
+    assert.deepEqual((await chats.list()).map((c) => c.name), ["Oldest", "Newer", "Active"]);
+    assert.ok(!fs.existsSync(path.join(folder, `${ids[1]}.json`)));
+
+    await chats.update(active.id, { turns: [...turns, ...turns] });
+    assert.deepEqual((await chats.list()).map((c) => c.name), ["Newer", "Active"]);
+  });
+
+  it("finds turns containing every word, newest first", async () => {
+    const chats = storage();
+    const older = await chats.create("Groceries");
+    await chats.update(older.id, {
+      turns: [
+        { userText: "What's open?", claudeMarkdown: "- [ ] buy Milk" },
+        { userText: "Anything else?", claudeMarkdown: "Eggs and milk for the cake" },
+      ],
+    });
+    const newer = await chats.create("Baking");
+    await chats.update(newer.id, { turns: [{ userText: "Which milk for the cake?", claudeMarkdown: "Whole milk." }] });
+
+    const hits = await chats.search("MILK cake");
+    assert.deepEqual(
+      hits.map((h) => [h.conversation.name, h.turnIndex]),
+      [["Baking", 0], ["Groceries", 1]]
+    );
+    assert.equal((await chats.search("milk", 2)).length, 2);
+    assert.deepEqual(await chats.search("   "), []);
+  });
+
+  it("finds turns on other branches and sees later saves", async () => {
+    const chats = storage();
+    const conversation = await chats.create("Branches");
+    const first = { id: "a", parentId: null, userText: "Plan a trip", claudeMarkdown: "Where to?" };
+    await chats.update(conversation.id, {
+      turns: [first, { id: "b2", parentId: "a", userText: "Rome", claudeMarkdown: "Pasta." }],
+      otherTurns: [{ id: "b", parentId: "a", userText: "Paris", claudeMarkdown: "Croissants." }],
+    });
+
+    const [hit] = await chats.search("paris");
+    assert.equal(hit.turn.id, "b");
+    assert.equal(hit.turnIndex, 1);
+    assert.equal(hit.otherBranch, true);
+
+    await chats.update(conversation.id, { turns: [first], otherTurns: [] });
+    assert.deepEqual(await chats.search("paris"), []);
+  });
+
+  it("tells listeners about saves and reads the saved conversation for changes", async () => {
+    const chats = storage();
+    const conversation = await chats.create();
+    const changed: string[] = [];
+    const stop = chats.onChange((id) => changed.push(id));
+    const turn = (n: number) => ({ userText: `Message ${n}`, claudeMarkdown: `Reply ${n}` });
+
+    await chats.update(conversation.id, { turns: [turn(1)] });
+    await chats.update(conversation.id, (saved) => ({ turns: [...saved.turns, turn(2)] }));
+    stop();
+    await chats.update(conversation.id, { name: "Unheard" });
+
+    assert.deepEqual(changed, [conversation.id, conversation.id]);
+    assert.deepEqual((await chats.get(conversation.id))?.turns, [turn(1), turn(2)]);
+  });
+
+  it("doesn't lose turns saved at the same time", async () => {
+    const chats = storage();
+    const conversation = await chats.create();
+    const turn = (n: number) => ({ userText: `Message ${n}`, claudeMarkdown: `Reply ${n}` });
+    await Promise.all([
+      chats.update(conversation.id, { turns: [turn(1)] }),
+      chats.update(conversation.id, { name: "Renamed" }),
+      chats.create("Another"),
+    ]);
+
+    const saved = await chats.get(conversation.id);
+    assert.equal(saved?.name, "Renamed");
+    assert.deepEqual(saved?.turns, [turn(1)]);
+  });
+});
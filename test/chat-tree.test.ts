@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ChatTurnData } from "../src/chat-storage";
+import {
+  alternativesAt,
+  branchThrough,
+  forkAt,
+  forkPointAt,
+  mergeBranches,
+  switchBranch,
+  withTurnIds,
+} from "../src/chat-tree";
+
+function turn(id: string, parentId: string | null, finishedAt: number, sessionId = "sess-a"): ChatTurnData {
+  return {
+    id,
+    parentId,
+    userText: `Message ${id}`,
+    claudeMarkdown: `Reply ${id}`,
+    finishedAt,
+    sessionId,
+    messageUuid: `uuid-${id}`,
+  };
+}
+
+describe("conversation tree", () => {
+  it("links turns saved before branching", () => {
+    const turns = withTurnIds(
+      [
+        { userText: "Hi", claudeMarkdown: "Hello" },
+        { userText: "Bye", claudeMarkdown: "Goodbye" },
+      ],
+      "sess-old"
+    );
+
+    assert.equal(turns[0].parentId, null);
+    assert.equal(turns[1].parentId, turns[0].id);
+    assert.notEqual(turns[0].id, turns[1].id);
+    assert.deepEqual(turns.map((t) => t.sessionId), ["sess-old", "sess-old"]);
+    // Nothing to resume up to, so only the first message can be edited
+    assert.equal(forkPointAt(turns, 0), null);
+    assert.equal(forkPointAt(turns, 1), undefined);
+  });
+
+  it("keeps an edited turn's old branch and switches between them", () => {
+    const original = { turns: [turn("a", null, 1), turn("b", "a", 2), turn("c", "b", 3)], otherTurns: [] };
+
+    assert.deepEqual(forkPointAt(original.turns, 1), { sessionId: "sess-a", messageUuid: "uuid-a" });
+    const forked = forkAt(original, 1);
+    assert.deepEqual(forked.turns.map((t) => t.id), ["a"]);
+    assert.deepEqual(forked.otherTurns.map((t) => t.id), ["b", "c"]);
+
+    const edited = { turns: [...forked.turns, turn("b2", "a", 4, "sess-b")], otherTurns: forked.otherTurns };
+    assert.deepEqual(alternativesAt(edited, 1).map((t) => t.id), ["b", "b2"]);
+    assert.deepEqual(alternativesAt(edited, 0).map((t) => t.id), ["a"]);
+
+    // Back to the first version, with the reply that followed it
+    const back = switchBranch(edited, 1, "b");
+    assert.deepEqual(back.turns.map((t) => t.id), ["a", "b", "c"]);
+    assert.deepEqual(back.otherTurns.map((t) => t.id), ["b2"]);
+
+    assert.deepEqual(switchBranch(back, 1, "b2").turns.map((t) => t.id), ["a", "b2"]);
+  });
+
+  it("follows the most recent reply below a switched turn", () => {
+    const branch = {
+      turns: [turn("a", null, 1), turn("b2", "a", 5)],
+      otherTurns: [turn("b", "a", 2), turn("c", "b", 3), turn("c2", "b", 4)],
+    };
+
+    assert.deepEqual(switchBranch(branch, 1, "b").turns.map((t) => t.id), ["a", "b", "c2"]);
+  });
+
+  it("shows the branch through a turn found elsewhere in the tree", () => {
+    const branch = {
+      turns: [turn("a", null, 1), turn("b2", "a", 5)],
+      otherTurns: [turn("b", "a", 2), turn("c", "b", 3), turn("d", "c", 4)],
+    };
+
+    const shown = branchThrough(branch, "c");
+    assert.deepEqual(shown.turns.map((t) => t.id), ["a", "b", "c", "d"]);
+    assert.deepEqual(shown.otherTurns.map((t) => t.id), ["b2"]);
+  });
+
+  it("keeps turns another panel saved in the meantime", () => {
+    const saved = { turns: [turn("a", null, 1), turn("b", "a", 2)], otherTurns: [] };
+    const shown = { turns: [turn("a", null, 1), turn("c", "a", 3)], otherTurns: [] };
+
+    const merged = mergeBranches(saved, shown);
+    assert.deepEqual(merged.turns.map((t) => t.id), ["a", "c"]);
+    assert.deepEqual(merged.otherTurns.map((t) => t.id), ["b"]);
+  });
+});
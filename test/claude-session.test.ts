@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ClaudeSession, ClaudeSessionOptions, startClaudeSession } from "../src/claude-session";
+import { FakeClaudeRun, argValue, isAlive, recordingCallbacks, testSettings, waitFor } from "./helpers";
+
+let fake: FakeClaudeRun | null = null;
+let session: ClaudeSession | null = null;
+
+afterEach(() => {
+  session?.close();
+  session = null;
+  fake?.dispose();
+  fake = null;
+});
+
+function start(transcripts: string[], options: Partial<ClaudeSessionOptions> = {}): ClaudeSession {
+  fake = new FakeClaudeRun(transcripts);
+  session = startClaudeSession({
+    vaultPath: fake.vaultPath,
+    currentFilePath: null,
+    settings: testSettings(),
+    ...options,
+  });
+  return session;
+}
+
+// Sends a message and waits for its reply and for the process to exit, as the fake does after one
+async function send(chat: ClaudeSession, prompt: string) {
+  const { callbacks, recording, settled } = recordingCallbacks();
+  chat.send(prompt, callbacks);
+  await settled;
+  const invocations = fake?.invocations() ?? [];
+  const last = invocations[invocations.length - 1];
+  await waitFor(() => !isAlive(last.pid));
+  return recording;
+}
+
+describe("chat session", () => {
+  it("resumes its session after the process exits", async () => {
+    const chat = start(["success"], { sessionId: "sess-earlier" });
+    await send(chat, "Hello");
+    await send(chat, "And again");
+
+    const [first, second] = fake?.invocations() ?? [];
+    assert.equal(argValue(first.args, "--input-format"), "stream-json");
+    assert.equal(argValue(first.args, "--resume"), "sess-earlier");
+    assert.equal(argValue(second.args, "--resume"), "sess-success");
+  });
+
+  it("forks from an earlier reply, then carries on in the fork", async () => {
+    const chat = start(["success"], { sessionId: "sess-earlier", forkAtMessage: "uuid-1" });
+    const recording = await send(chat, "Edited message");
+    await send(chat, "Follow-up");
+
+    const [fork, after] = fake?.invocations() ?? [];
+    assert.equal(argValue(fork.args, "--resume"), "sess-earlier");
+    assert.equal(argValue(fork.args, "--resume-session-at"), "uuid-1");
+    assert.ok(fork.args.includes("--fork-session"));
+    assert.equal(recording.done[0].messageUuid, "uuid-2");
+
+    assert.equal(argValue(after.args, "--resume"), "sess-success");
+    assert.ok(!after.args.includes("--resume-session-at"));
+    assert.ok(!after.args.includes("--fork-session"));
+  });
+
+  it("reports each turn's own usage while the process stays up", async () => {
+    const chat = start(["two-turns"]);
+    const first = recordingCallbacks();
+    chat.send("One", first.callbacks);
+    await first.settled;
+    const second = recordingCallbacks();
+    chat.send("Two", second.callbacks);
+    await second.settled;
+
+    assert.equal(fake?.invocations().length, 1);
+    const usage = { model: testSettings().model, sessionId: "sess-two-turns" };
+    assert.deepEqual(first.recording.done[0], {
+      ...usage,
+      messageUuid: "uuid-1",
+      turns: 1,
+      costUsd: 0.5,
+      durationMs: 1000,
+      inputTokens: 100,
+      outputTokens: 10,
+      cacheReadTokens: 20,
+      cacheCreationTokens: 5,
+    });
+    assert.deepEqual(second.recording.done[0], {
+      ...usage,
+      messageUuid: "uuid-2",
+      turns: 2,
+      costUsd: 0.25,
+      durationMs: 1500,
+      inputTokens: 150,
+      outputTokens: 20,
+      cacheReadTokens: 40,
+      cacheCreationTokens: 0,
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createDataStore } from "../src/data-store";
+import { sleep } from "./helpers";
+
+interface Counters {
+  a?: number;
+  b?: number;
+}
+
+describe("data store", () => {
+  it("doesn't lose changes made at the same time", async () => {
+    let saved: Counters = {};
+    // Slow enough that unordered writes would read the same old data
+    const store = createDataStore<Counters>(
+      async () => {
+        await sleep(5);
+        return structuredClone(saved);
+      },
+      async (data) => {
+        await sleep(5);
+        saved = structuredClone(data);
+      }
+    );
+
+    await Promise.all([
+      store.modify((data) => (data.a = (data.a ?? 0) + 1)),
+      store.modify((data) => (data.b = 1)),
+      store.modify((data) => (data.a = (data.a ?? 0) + 1)),
+    ]);
+    assert.deepEqual(saved, { a: 2, b: 1 });
+  });
+
+  it("carries on after a failed change", async () => {
+    let saved: Counters = {};
+    const store = createDataStore<Counters>(
+      () => Promise.resolve(structuredClone(saved)),
+      (data) => {
+        saved = structuredClone(data);
+        return Promise.resolve();
+      }
+    );
+
+    const failed = store.modify(() => {
+      throw new Error("broken");
+    });
+    await assert.rejects(failed, /broken/);
+    assert.equal(await store.modify((data) => (data.a = 1)), 1);
+    assert.deepEqual(await store.load(), { a: 1 });
+  });
+});
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DiffChunk, diffLines, mergeChunks } from "../src/diff";
+
+function changedLines(chunks: DiffChunk[]): number {
+  return chunks.reduce((sum, c) => sum + (c.type === "change" ? c.removed.length + c.added.length : 0), 0);
+}
+
+// Lines in common, by the textbook table; the diff must change every other line and no more
+function commonLines(a: string[], b: string[]): number {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table[0][0];
+}
+
+describe("diff", () => {
+  it("splits a file into unchanged runs and changes", () => {
+    const chunks = diffLines("a\nb\nc\nd\n", "a\nB\nc\nd\ne");
+
+    assert.deepEqual(chunks, [
+      { type: "equal", lines: ["a\n"] },
+      { type: "change", removed: ["b\n"], added: ["B\n"] },
+      { type: "equal", lines: ["c\n", "d\n"] },
+      { type: "change", removed: [], added: ["e"] },
+    ]);
+  });
+
+  it("handles empty files", () => {
+    assert.deepEqual(diffLines("", ""), []);
+    assert.deepEqual(diffLines("", "new\n"), [{ type: "change", removed: [], added: ["new\n"] }]);
+    assert.deepEqual(diffLines("old\n", ""), [{ type: "change", removed: ["old\n"], added: [] }]);
+  });
+
+  it("keeps only the accepted changes", () => {
+    const chunks = diffLines("one\ntwo\nthree\nfour\n", "ONE\ntwo\nthree\nFOUR\n");
+
+    assert.equal(mergeChunks(chunks, new Set()), "ONE\ntwo\nthree\nFOUR\n");
+    assert.equal(mergeChunks(chunks, new Set([0])), "one\ntwo\nthree\nFOUR\n");
+    assert.equal(mergeChunks(chunks, new Set([0, 1])), "one\ntwo\nthree\nfour\n");
+  });
+
+  it("finds a shortest diff", () => {
+    // Fixed seed, so a failure can be reproduced
+    let seed = 42;
+    const random = (max: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % max;
+    };
+    const lines = (count: number) => Array.from({ length: count }, () => `${"abcd"[random(4)]}\n`);
+
+    for (let round = 0; round < 300; round++) {
+      const a = lines(random(12));
+      const b = lines(random(12));
+      const chunks = diffLines(a.join(""), b.join(""));
+
+      assert.equal(mergeChunks(chunks, new Set()), b.join(""));
+      assert.equal(mergeChunks(chunks, new Set(chunks.map((_, i) => i))), a.join(""));
+      assert.equal(changedLines(chunks), a.length + b.length - 2 * commonLines(a, b));
+    }
+  });
+
+  it("diffs a rewritten long file quickly", () => {
+    const before = Array.from({ length: 3000 }, (_, i) => `line ${i}\n`).join("");
+    // Two lines in three rewritten
+    const after = Array.from({ length: 3000 }, (_, i) => `${i % 3 === 0 ? "line" : "new"} ${i}\n`).join("");
+
+    const started = Date.now();
+    const chunks = diffLines(before, after);
+    assert.ok(Date.now() - started < 2000, "took longer than two seconds");
+    assert.equal(mergeChunks(chunks, new Set()), after);
+    assert.equal(changedLines(chunks), 4000);
+  });
+});
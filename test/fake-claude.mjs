@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+// A stand-in for the `claude` binary that replays a recorded stream-json
+// transcript. FAKE_CLAUDE_TRANSCRIPT names the transcript file; every line of
+// it is written to stdout as is, except directive lines, which are objects
+// with a "$" key:
+//
+//   {"$": "sleep", "ms": 200}            wait before the next line
+//   {"$": "partial", "text": "..."}      write text without a newline, so a
+//                                         line can arrive in pieces
+//   {"$": "stderr", "text": "..."}       write a line to stderr
+//   {"$": "exit", "code": 1}             exit now
+//   {"$": "signal", "name": "SIGKILL"}   kill itself with a signal
+//   {"$": "ignore-sigterm"}              survive SIGTERM from here on
+//   {"$": "hang"}                        stop and wait to be killed
+//   {"$": "read"}                        wait for the next line on stdin,
+//                                         as the CLI waits for a chat message
+//
+// Reaching the end of the transcript exits with code 0. Several transcripts
+// separated by the path delimiter are used one per invocation, the last one
+// repeating, which needs FAKE_CLAUDE_LOG to count invocations. That file gets
+// one line of JSON per invocation: {"pid": 123, "args": [...]}.
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+
+const transcripts = (process.env.FAKE_CLAUDE_TRANSCRIPT ?? "").split(path.delimiter).filter(Boolean);
+const logFile = process.env.FAKE_CLAUDE_LOG;
+
+let invocation = 0;
+if (logFile) {
+  if (fs.existsSync(logFile)) {
+    invocation = fs.readFileSync(logFile, "utf8").split("\n").filter(Boolean).length;
+  }
+  fs.appendFileSync(logFile, JSON.stringify({ pid: process.pid, args: process.argv.slice(2) }) + "\n");
+}
+
+if (transcripts.length === 0) {
+  process.stderr.write("fake-claude: FAKE_CLAUDE_TRANSCRIPT is not set\n");
+  process.exit(2);
+}
+
+const transcript = transcripts[Math.min(invocation, transcripts.length - 1)];
+const lines = fs.readFileSync(transcript, "utf8").split("\n");
+
+const write = (stream, text) => new Promise((resolve) => stream.write(text, () => resolve()));
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Opened on the first "read" only, since an open stdin keeps the process alive
+let input = null;
+
+for (const line of lines) {
+  if (!line.trim()) continue;
+
+  let directive = null;
+  try {
+    const parsed = JSON.parse(line);
+    if (parsed && typeof parsed === "object" && "$" in parsed) directive = parsed;
+  } catch {
+    // Not JSON: replayed like any other line, as the CLI sometimes prints such lines
+  }
+
+  if (!directive) {
+    await write(process.stdout, line + "\n");
+    continue;
+  }
+
+  switch (directive.$) {
+    case "sleep":
+      await sleep(directive.ms);
+      break;
+    case "partial":
+      await write(process.stdout, directive.text);
+      break;
+    case "stderr":
+      await write(process.stderr, directive.text + "\n");
+      break;
+    case "exit":
+      process.exit(directive.code);
+      break;
+    case "signal":
+      process.kill(process.pid, directive.name);
+      // The signal is delivered asynchronously; don't replay past it meanwhile
+      await sleep(60_000);
+      break;
+    case "ignore-sigterm":
+      process.on("SIGTERM", () => {});
+      break;
+    case "read":
+      input ??= readline.createInterface({ input: process.stdin })[Symbol.asyncIterator]();
+      await input.next();
+      break;
+    case "hang":
+      setInterval(() => {}, 60_000);
+      await new Promise(() => {});
+      break;
+    default:
+      process.stderr.write(`fake-claude: unknown directive ${JSON.stringify(directive.$)}\n`);
+      process.exit(2);
+  }
+}
+
+if (input) process.stdin.destroy();
@@ -0,0 +1,151 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type {
+  ClaudeError,
+  ClaudeRunnerCallbacks,
+  RunUsage,
+  ToolResultEvent,
+  ToolUseEvent,
+} from "../src/claude-runner";
+import type { PendingRetry } from "../src/retry";
+import { ClaudianSettings, DEFAULT_SETTINGS } from "../src/settings";
+
+// Tests run from a bundle in a temporary folder; run.mjs says where the sources are
+export const TEST_DIR = process.env.QLAUDE_TEST_DIR ?? __dirname;
+export const FAKE_CLAUDE = path.join(TEST_DIR, "fake-claude.mjs");
+
+export function fixture(name: string): string {
+  return path.join(TEST_DIR, "fixtures", `${name}.jsonl`);
+}
+
+export function testSettings(overrides: Partial<ClaudianSettings> = {}): ClaudianSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    claudeBinaryPath: FAKE_CLAUDE,
+    retryAttempts: 0,
+    timeoutMinutes: 0,
+    ...overrides,
+  };
+}
+
+/** Everything a run reported, in the order it arrived. */
+export interface Recording {
+  texts: string[];
+  thinking: string[];
+  toolUses: ToolUseEvent[];
+  toolResults: ToolResultEvent[];
+  inits: Array<{ sessionId: string; tools: string[] }>;
+  done: RunUsage[];
+  errors: ClaudeError[];
+  retries: PendingRetry[];
+}
+
+/** Callbacks that record every call, and a promise for the first onDone or onError. */
+export function recordingCallbacks(): {
+  callbacks: ClaudeRunnerCallbacks;
+  recording: Recording;
+  settled: Promise<void>;
+} {
+  const recording: Recording = {
+    texts: [],
+    thinking: [],
+    toolUses: [],
+    toolResults: [],
+    inits: [],
+    done: [],
+    errors: [],
+    retries: [],
+  };
+  let settle: () => void = () => {};
+  const settled = new Promise<void>((resolve) => (settle = resolve));
+  const callbacks: ClaudeRunnerCallbacks = {
+    onText: (text) => recording.texts.push(text),
+    onThinking: (text) => recording.thinking.push(text),
+    onToolUse: (event) => recording.toolUses.push(event),
+    onToolResult: (event) => recording.toolResults.push(event),
+    onSystemInit: (sessionId, tools) => recording.inits.push({ sessionId, tools }),
+    onDone: (usage) => {
+      recording.done.push(usage);
+      settle();
+    },
+    onError: (error) => {
+      recording.errors.push(error);
+      settle();
+    },
+    onRetry: (retry) => recording.retries.push(retry),
+  };
+  return { callbacks, recording, settled };
+}
+
+export interface Invocation {
+  pid: number;
+  args: string[];
+}
+
+/**
+ * A vault folder and an invocation log for one test, plus the environment
+ * that points the fake CLI at its transcripts. Call dispose when done.
+ */
+export class FakeClaudeRun {
+  readonly dir = fs.mkdtempSync(path.join(os.tmpdir(), "qlaude-test-"));
+  readonly vaultPath = path.join(this.dir, "vault");
+  readonly logFile = path.join(this.dir, "invocations.jsonl");
+  private savedEnv: Record<string, string | undefined> = {};
+
+  constructor(transcripts: string[]) {
+    fs.mkdirSync(this.vaultPath);
+    this.setEnv("FAKE_CLAUDE_TRANSCRIPT", transcripts.map(fixture).join(path.delimiter));
+    this.setEnv("FAKE_CLAUDE_LOG", this.logFile);
+  }
+
+  /** Process ID and arguments of each invocation so far. */
+  invocations(): Invocation[] {
+    if (!fs.existsSync(this.logFile)) return [];
+    return fs
+      .readFileSync(this.logFile, "utf8")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as Invocation);
+  }
+
+  dispose(): void {
+    for (const [key, value] of Object.entries(this.savedEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  private setEnv(key: string, value: string): void {
+    if (!(key in this.savedEnv)) this.savedEnv[key] = process.env[key];
+    process.env[key] = value;
+  }
+}
+
+export function argValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+/** Polls until `predicate` holds, failing after `timeoutMs`. */
+export async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error(`Condition not met within ${timeoutMs} ms`);
+    await sleep(20);
+  }
+}
+
+export function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
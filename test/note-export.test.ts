@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import * as path from "path";
+import { describe, it } from "node:test";
+import type { ChatTurnData } from "../src/chat-storage";
+import {
+  buildConversationNote,
+  buildQuickActionNote,
+  changedPathsOf,
+  conversationMetadata,
+} from "../src/note-export";
+
+const turns: ChatTurnData[] = [
+  {
+    userText: "What's open?",
+    claudeMarkdown: "One task:\n\n- [ ] buy milk",
+    finishedAt: new Date(2024, 4, 1, 14, 0).getTime(),
+    model: "claude-haiku-4-5",
+    costUsd: 0.01,
+    changedPaths: ["Tasks.md"],
+  },
+  {
+    userText: "Tick it off",
+    claudeMarkdown: "Done.",
+    finishedAt: new Date(2024, 4, 1, 14, 5).getTime(),
+    model: "claude-sonnet-4-5",
+    costUsd: 0.0223,
+    changedPaths: ["Tasks.md", "Log/2024-05-01.md"],
+  },
+];
+
+describe("note export", () => {
+  it("adds up a conversation's turns for the frontmatter", () => {
+    const metadata = conversationMetadata(turns, "abc-123", "fallback");
+
+    assert.equal(metadata.date, turns[1].finishedAt);
+    assert.equal(metadata.model, "claude-sonnet-4-5");
+    assert.equal(metadata.sessionId, "abc-123");
+    assert.ok(Math.abs(metadata.costUsd - 0.0323) < 1e-9);
+    assert.deepEqual(metadata.changedPaths, ["Tasks.md", "Log/2024-05-01.md"]);
+  });
+
+  it("falls back for turns saved before note export", () => {
+    const metadata = conversationMetadata([{ userText: "Hi", claudeMarkdown: "Hello" }], null, "fallback");
+
+    assert.equal(metadata.model, "fallback");
+    assert.equal(metadata.costUsd, 0);
+    assert.deepEqual(metadata.changedPaths, []);
+  });
+
+  it("writes a conversation as frontmatter and callouts", () => {
+    const note = buildConversationNote("Groceries", turns, conversationMetadata(turns, "abc-123", "fallback"));
+
+    assert.equal(
+      note,
+      [
+        "---",
+        "date: 2024-05-01T14:05:00",
+        'model: "claude-sonnet-4-5"',
+        'session_id: "abc-123"',
+        "cost_usd: 0.0323",
+        "files:",
+        '  - "[[Tasks]]"',
+        '  - "[[Log/2024-05-01]]"',
+        "---",
+        "",
+        "# Groceries",
+        "",
+        "> [!question] You",
+        "> What's open?",
+        "",
+        "> [!note] Claude",
+        "> One task:",
+        ">",
+        "> - [ ] buy milk",
+        "",
+        "> [!question] You",
+        "> Tick it off",
+        "",
+        "> [!note] Claude",
+        "> Done.",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("writes a quick action without a session or changed files", () => {
+    const note = buildQuickActionNote("Summarize", "", {
+      date: new Date(2024, 4, 1, 9, 30).getTime(),
+      model: "claude-haiku-4-5",
+      sessionId: null,
+      costUsd: 0,
+      changedPaths: [],
+    });
+
+    assert.match(note, /^---\ndate: 2024-05-01T09:30:00\n/);
+    assert.match(note, /\nsession_id: null\ncost_usd: 0\nfiles: \[\]\n---\n/);
+    assert.match(note, /\n# Qlaude quick action 2024-05-01 09:30\n/);
+    assert.match(note, /\n> \[!note\] Claude\n> \*No reply\.\*\n$/);
+  });
+
+  it("turns snapshot paths into vault paths", () => {
+    const vault = path.join(path.sep, "vault");
+    const snapshots = [path.join(vault, "Tasks.md"), path.join(vault, "Log", "2024-05-01.md")].map(
+      (absolutePath) => ({ absolutePath, content: null })
+    );
+
+    assert.deepEqual(changedPathsOf(vault, snapshots), ["Tasks.md", "Log/2024-05-01.md"]);
+  });
+});
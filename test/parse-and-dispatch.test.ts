@@ -0,0 +1,206 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { describe, it } from "node:test";
+import { StreamState, newStreamState, parseAndDispatch } from "../src/claude-runner";
+import { fixture, recordingCallbacks } from "./helpers";
+
+// Feeds lines through parseAndDispatch with one stream state, as a process would
+function dispatchAll(lines: string[], model = "claude-test") {
+  const { callbacks, recording } = recordingCallbacks();
+  const stream: StreamState = newStreamState();
+  for (const line of lines) parseAndDispatch(line, callbacks, stream, model);
+  return recording;
+}
+
+function transcriptLines(name: string): string[] {
+  return fs.readFileSync(fixture(name), "utf8").split("\n");
+}
+
+describe("parseAndDispatch", () => {
+  it("dispatches a recorded run in order", () => {
+    const recording = dispatchAll(transcriptLines("success"));
+
+    assert.deepEqual(recording.inits, [{ sessionId: "sess-success", tools: ["Read", "Edit"] }]);
+    assert.deepEqual(recording.texts, ["Let me look at the note.", "You have one open task."]);
+    assert.deepEqual(recording.toolUses, [
+      { id: "toolu_1", name: "Read", input: { file_path: "Notes/todo.md" } },
+    ]);
+    assert.equal(recording.toolResults.length, 1);
+    assert.equal(recording.toolResults[0].tool_use_id, "toolu_1");
+    assert.equal(recording.toolResults[0].content, "- [ ] buy milk");
+    assert.equal(recording.toolResults[0].is_error, false);
+    assert.equal(typeof recording.toolResults[0].durationMs, "number");
+    assert.deepEqual(recording.errors, []);
+  });
+
+  it("reads usage from the result event", () => {
+    const recording = dispatchAll(transcriptLines("success"));
+
+    assert.deepEqual(recording.done, [
+      {
+        turns: 2,
+        costUsd: 0.0123,
+        durationMs: 1500,
+        inputTokens: 1200,
+        outputTokens: 80,
+        cacheReadTokens: 300,
+        cacheCreationTokens: 40,
+        model: "claude-test",
+        sessionId: "sess-success",
+        messageUuid: "uuid-2",
+      },
+    ]);
+  });
+
+  it("accepts the cost_usd field of older CLI versions", () => {
+    const recording = dispatchAll([JSON.stringify({ type: "result", subtype: "success", cost_usd: 0.5 })]);
+
+    assert.equal(recording.done[0].costUsd, 0.5);
+    assert.equal(recording.done[0].sessionId, null);
+    assert.equal(recording.done[0].messageUuid, null);
+  });
+
+  it("ignores blank lines, non-JSON lines and unknown events", () => {
+    const recording = dispatchAll([
+      "",
+      "   ",
+      "Update available!",
+      "{ truncated",
+      JSON.stringify({ type: "system", subtype: "hook_response" }),
+      JSON.stringify({ type: "rate_limit_event" }),
+      JSON.stringify({ type: "assistant" }),
+    ]);
+
+    assert.deepEqual(recording, {
+      texts: [],
+      thinking: [],
+      toolUses: [],
+      toolResults: [],
+      inits: [],
+      done: [],
+      errors: [],
+      retries: [],
+    });
+  });
+
+  it("streams text and thinking deltas without repeating the final message", () => {
+    const recording = dispatchAll(transcriptLines("stream-partial"));
+
+    assert.deepEqual(recording.thinking, ["The user wants ", "a greeting."]);
+    assert.deepEqual(recording.texts, ["Hi ", "there."]);
+    assert.equal(recording.done.length, 1);
+  });
+
+  it("still dispatches whole messages that were not streamed", () => {
+    const recording = dispatchAll([
+      JSON.stringify({ type: "stream_event", event: { type: "message_start", message: { id: "msg_1" } } }),
+      JSON.stringify({
+        type: "stream_event",
+        event: { type: "content_block_delta", delta: { type: "text_delta", text: "streamed" } },
+      }),
+      JSON.stringify({ type: "assistant", message: { id: "msg_1", content: [{ type: "text", text: "streamed" }] } }),
+      JSON.stringify({
+        type: "assistant",
+        message: { id: "msg_2", content: [{ type: "thinking", thinking: "hmm" }, { type: "text", text: "whole" }] },
+      }),
+    ]);
+
+    assert.deepEqual(recording.texts, ["streamed", "whole"]);
+    assert.deepEqual(recording.thinking, ["hmm"]);
+  });
+
+  it("flattens tool result content and flags failed tools", () => {
+    const recording = dispatchAll([
+      JSON.stringify({
+        type: "user",
+        message: {
+          content: [
+            { type: "tool_result", tool_use_id: "a", content: "plain" },
+            { type: "tool_result", tool_use_id: "b", content: [{ text: "one" }, { text: "two" }] },
+            { type: "tool_result", tool_use_id: "c", content: { code: 1 }, is_error: true },
+          ],
+        },
+      }),
+    ]);
+
+    assert.deepEqual(
+      recording.toolResults.map(({ tool_use_id, content, is_error, durationMs }) => ({
+        tool_use_id,
+        content,
+        is_error,
+        durationMs,
+      })),
+      [
+        // No tool_use was seen for these, so there is no duration
+        { tool_use_id: "a", content: "plain", is_error: false, durationMs: null },
+        { tool_use_id: "b", content: "one\ntwo", is_error: false, durationMs: null },
+        { tool_use_id: "c", content: '{"code":1}', is_error: true, durationMs: null },
+      ]
+    );
+  });
+
+  it("defaults a tool call's missing input to an empty object", () => {
+    const recording = dispatchAll([
+      JSON.stringify({
+        type: "assistant",
+        message: { content: [{ type: "tool_use", id: "t", name: "LS" }] },
+      }),
+    ]);
+
+    assert.deepEqual(recording.toolUses, [{ id: "t", name: "LS", input: {} }]);
+  });
+
+  describe("result errors", () => {
+    function errorOf(event: Record<string, unknown>) {
+      const recording = dispatchAll([JSON.stringify({ type: "result", ...event })]);
+      assert.equal(recording.done.length, 0);
+      assert.equal(recording.errors.length, 1);
+      return recording.errors[0];
+    }
+
+    it("treats a success flagged is_error as a failure", () => {
+      const error = errorOf({ subtype: "success", is_error: true, result: "Something broke" });
+      assert.equal(error.kind, "failed");
+      assert.equal(error.message, "Something broke");
+    });
+
+    it("recognises the turn limit", () => {
+      const error = errorOf({ subtype: "error_max_turns", num_turns: 4 });
+      assert.equal(error.kind, "maxTurns");
+      assert.match(error.message, /^Stopped: turn limit\. Claude stopped after 4 turns/);
+    });
+
+    it("keeps what a failed run used", () => {
+      const error = errorOf({
+        subtype: "error_max_turns",
+        num_turns: 4,
+        total_cost_usd: 0.12,
+        usage: { input_tokens: 300, output_tokens: 40 },
+      });
+      assert.equal(error.usage?.turns, 4);
+      assert.equal(error.usage?.costUsd, 0.12);
+      assert.equal(error.usage?.inputTokens, 300);
+      assert.equal(error.usage?.outputTokens, 40);
+    });
+
+    it("classifies login, rate-limit and network failures", () => {
+      assert.equal(errorOf({ subtype: "success", is_error: true, result: "Invalid API key" }).kind, "auth");
+      assert.equal(errorOf({ subtype: "success", is_error: true, result: "API Error: 429" }).kind, "rateLimited");
+      assert.equal(
+        errorOf({ subtype: "error_during_execution", error: "fetch failed: ECONNRESET" }).kind,
+        "network"
+      );
+    });
+
+    it("describes errors during execution", () => {
+      const error = errorOf({ subtype: "error_during_execution", errors: ["disk full", "again"] });
+      assert.equal(error.kind, "failed");
+      assert.equal(error.message, "Claude hit an error while working: disk full\nagain");
+      assert.equal(errorOf({ subtype: "error_during_execution" }).message, "Claude hit an error while working.");
+    });
+
+    it("falls back to a generic message", () => {
+      assert.equal(errorOf({ subtype: "error_unknown" }).message, "Unknown error from Claude");
+    });
+  });
+});
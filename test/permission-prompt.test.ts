@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ClaudeLaunch, prepareLaunch } from "../src/claude-runner";
+import { PermissionBridge, PermissionRequest } from "../src/permission-bridge";
+import { argValue, testSettings } from "./helpers";
+
+let vaultPath: string;
+let bridge: PermissionBridge;
+let launch: ClaudeLaunch | null = null;
+
+beforeEach(async () => {
+  vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), "qlaude-vault-"));
+  fs.writeFileSync(path.join(vaultPath, "todo.md"), "- [ ] buy milk");
+  bridge = new PermissionBridge();
+  await bridge.start();
+});
+
+afterEach(() => {
+  launch?.cleanup();
+  launch = null;
+  bridge.stop();
+  fs.rmSync(vaultPath, { recursive: true, force: true });
+});
+
+// Calls the approval tool the way the CLI does and returns the decision it sent back
+async function askBridge(toolName: string, input: Record<string, unknown>): Promise<string> {
+  const { mcpServers } = JSON.parse(argValue(launch?.args ?? [], "--mcp-config") ?? "{}") as {
+    mcpServers: Record<string, { url: string }>;
+  };
+  const response = await fetch(Object.values(mcpServers)[0].url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { arguments: { tool_name: toolName, input } },
+    }),
+  });
+  const body = (await response.json()) as { result: { content: Array<{ text: string }> } };
+  return (JSON.parse(body.result.content[0].text) as { behavior: string }).behavior;
+}
+
+describe("permission prompt", () => {
+  it("holds allowed edits until the file is snapshotted", async () => {
+    const seen: string[] = [];
+    const settings = testSettings();
+    settings.permissions = { ...settings.permissions, editCurrentFile: "allow" };
+    launch = prepareLaunch({
+      vaultPath,
+      currentFilePath: "todo.md",
+      settings,
+      permissionBridge: bridge,
+      getCallbacks: () => ({
+        onText: () => {},
+        onToolUse: () => {},
+        onToolResult: () => {},
+        onSystemInit: () => {},
+        onDone: () => {},
+        onError: () => {},
+        onBeforeToolUse: (request: PermissionRequest) => {
+          seen.push(`${request.toolName} ${fs.readFileSync(path.join(vaultPath, "todo.md"), "utf8")}`);
+        },
+      }),
+    });
+
+    // Left out of the CLI's own allow rules, so the CLI asks first
+    const rules = JSON.parse(fs.readFileSync(argValue(launch.args, "--settings") ?? "", "utf8")) as {
+      permissions: { allow: string[] };
+    };
+    assert.ok(!rules.permissions.allow.some((rule) => rule.startsWith("Edit")));
+
+    assert.equal(await askBridge("Edit", { file_path: "todo.md" }), "allow");
+    assert.equal(await askBridge("Edit", { file_path: "other.md" }), "deny");
+    assert.deepEqual(seen, ["Edit - [ ] buy milk"]);
+  });
+
+  it("starts again after failing to listen", async () => {
+    const failing = new PermissionBridge();
+    const listen = http.Server.prototype.listen;
+    http.Server.prototype.listen = function (this: http.Server) {
+      process.nextTick(() => this.emit("error", new Error("listen EADDRINUSE")));
+      return this;
+    } as typeof listen;
+    try {
+      await assert.rejects(failing.start(), /EADDRINUSE/);
+    } finally {
+      http.Server.prototype.listen = listen;
+    }
+    assert.ok(!failing.isRunning);
+
+    await failing.start();
+    assert.ok(failing.isRunning);
+    failing.stop();
+  });
+});
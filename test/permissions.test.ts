@@ -0,0 +1,216 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+import type { FolderRule } from "../src/folder-rules";
+import { buildPermissionRules, classifyToolCall, toRulePath } from "../src/permissions";
+import type { ClaudianPermissions } from "../src/settings";
+import { testSettings } from "./helpers";
+
+const vault = path.join(path.sep, "vault");
+const vaultRule = `${toRulePath(vault)}/**`;
+
+// Runs `check` as if on a platform whose paths ignore case
+function ignoringCase(check: () => void) {
+  const platform = Object.getOwnPropertyDescriptor(process, "platform");
+  Object.defineProperty(process, "platform", { value: "darwin" });
+  try {
+    check();
+  } finally {
+    if (platform) Object.defineProperty(process, "platform", platform);
+  }
+}
+
+function withPermissions(permissions: Partial<ClaudianPermissions>, folderRules: FolderRule[] = []) {
+  const settings = testSettings();
+  return { ...settings, permissions: { ...settings.permissions, ...permissions }, folderRules };
+}
+
+describe("permission rules", () => {
+  it("sends restricted reads to the prompt with one rule for the whole vault", () => {
+    const rules = buildPermissionRules(
+      withPermissions({ readVault: "deny" }, [{ pattern: "Private/", operation: "read", effect: "deny" }]),
+      vault,
+      "Notes/todo.md"
+    );
+
+    assert.deepEqual(rules.ask, [`Read(${vaultRule})`]);
+    assert.ok(rules.deny.includes(`Read(${toRulePath(vault)}/Private/**)`));
+    assert.ok(!rules.allow.some((rule) => rule.startsWith("Read")));
+  });
+
+  it("names the readable notes and fences off the rest without a permission prompt", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "qlaude-vault-"));
+    try {
+      const files = ["Notes/todo.md", "Notes/attached.md", "Notes/other.md", "Projects/plan.md", "readme.md"];
+      for (const file of files) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), "");
+      }
+      const rule = (file: string) => toRulePath(path.join(root, file));
+      const rules = buildPermissionRules(
+        withPermissions({ readVault: "deny" }, [
+          { pattern: "Projects/", operation: "read", effect: "allow" },
+        ]),
+        root,
+        "Notes/todo.md",
+        ["Notes/attached.md"],
+        false
+      );
+
+      assert.deepEqual(rules.ask.filter((r) => r.startsWith("Read")), []);
+      assert.deepEqual(rules.allow.filter((r) => r.startsWith("Read")), [
+        `Read(${rule("Notes/todo.md")})`,
+        `Read(${rule("Notes/attached.md")})`,
+        `Read(${toRulePath(root)}/Projects/**)`,
+      ]);
+      assert.deepEqual(rules.deny.filter((r) => r.startsWith("Read")).sort(), [
+        `Read(${rule("Notes/other.md")})`,
+        `Read(${rule("readme.md")})`,
+      ]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("denies every built-in tool the permissions don't enable", () => {
+    const rules = buildPermissionRules(withPermissions({ listVaultStructure: "allow" }), vault, null);
+
+    const disabled = ["Bash", "WebFetch", "Task", "TodoWrite", "NotebookRead", "MultiEdit", "Edit", "Write"];
+    for (const tool of disabled) {
+      assert.ok(rules.deny.includes(tool), tool);
+    }
+    for (const tool of ["Read", "Glob", "Grep", "LS"]) {
+      assert.ok(!rules.deny.includes(tool), tool);
+    }
+  });
+
+  it("lets reads through when the vault may be read", () => {
+    const rules = buildPermissionRules(withPermissions({ readVault: "allow" }), vault, null);
+
+    assert.deepEqual(rules.allow, [`Read(${vaultRule})`]);
+    assert.deepEqual(rules.ask, []);
+  });
+
+  it("only lets Grep through when every note may be read", () => {
+    const listOnly = buildPermissionRules(
+      withPermissions({ listVaultStructure: "allow", readVault: "deny" }),
+      vault,
+      null
+    );
+    assert.ok(listOnly.allow.includes("Glob") && listOnly.allow.includes("LS"));
+    assert.ok(!listOnly.allow.includes("Grep"));
+    assert.ok(listOnly.ask.includes("Grep"));
+
+    const readAll = buildPermissionRules(
+      withPermissions({ listVaultStructure: "allow", readVault: "allow" }),
+      vault,
+      null
+    );
+    assert.ok(readAll.allow.includes("Grep"));
+
+    const privateFolder = buildPermissionRules(
+      withPermissions({ listVaultStructure: "allow", readVault: "allow" }, [
+        { pattern: "Private/**", operation: "read", effect: "deny" },
+      ]),
+      vault,
+      null
+    );
+    assert.ok(privateFolder.ask.includes("Grep"));
+  });
+
+  it("checks every read at the prompt when a denied folder could be reached by another case", () => {
+    const settings = withPermissions({ readVault: "allow" }, [
+      { pattern: "Private/**", operation: "read", effect: "deny" },
+    ]);
+    ignoringCase(() => {
+      const rules = buildPermissionRules(settings, vault, null);
+      assert.deepEqual(rules.ask, [`Read(${vaultRule})`]);
+      assert.ok(!rules.allow.some((rule) => rule.startsWith("Read")));
+    });
+  });
+
+  it("allows editing only the active file", () => {
+    const rules = buildPermissionRules(withPermissions({ editCurrentFile: "allow" }), vault, "Notes/todo.md");
+
+    assert.deepEqual(
+      rules.allow.filter((rule) => rule.startsWith("Edit")),
+      [`Edit(${toRulePath(path.join(vault, "Notes", "todo.md"))})`]
+    );
+    assert.ok(rules.deny.includes("Write"));
+  });
+});
+
+describe("tool call permissions", () => {
+  const classify = (
+    permissions: Partial<ClaudianPermissions>,
+    toolName: string,
+    input: Record<string, unknown>,
+    folderRules: FolderRule[] = []
+  ) =>
+    classifyToolCall(withPermissions(permissions, folderRules), vault, "Notes/todo.md", toolName, input, [
+      "Notes/attached.md",
+    ]);
+
+  it("reads the active file, attached notes and allowed folders", () => {
+    const projects: FolderRule[] = [{ pattern: "Projects/**", operation: "read", effect: "allow" }];
+
+    assert.equal(classify({ readVault: "deny" }, "Read", { file_path: "Notes/todo.md" }), "allow");
+    assert.equal(classify({ readVault: "deny" }, "Read", { file_path: "Notes/attached.md" }), "allow");
+    assert.equal(
+      classify({ readVault: "deny" }, "Read", { file_path: "Projects/plan.md" }, projects),
+      "allow"
+    );
+    assert.equal(classify({ readVault: "deny" }, "Read", { file_path: "Notes/new.md" }), "deny");
+    assert.equal(classify({ readVault: "ask" }, "Read", { file_path: "Notes/new.md" }), "ask");
+  });
+
+  it("never reads outside the vault or from a denied folder", () => {
+    const denied: FolderRule[] = [{ pattern: "Notes/**", operation: "read", effect: "deny" }];
+
+    assert.equal(classify({ readVault: "allow" }, "Read", { file_path: "/etc/passwd" }), "deny");
+    assert.equal(classify({ readVault: "allow" }, "Read", { file_path: "Notes/todo.md" }, denied), "deny");
+    assert.equal(classify({ listVaultStructure: "allow" }, "Glob", { path: "/etc" }), "deny");
+  });
+
+  it("holds Grep to the read permissions of the folder it searches", () => {
+    const list = { listVaultStructure: "allow" as const };
+    const privateFolder: FolderRule[] = [{ pattern: "Private/**", operation: "read", effect: "deny" }];
+
+    assert.equal(classify({ ...list, readVault: "allow" }, "Grep", { pattern: "milk" }), "allow");
+    assert.equal(classify({ ...list, readVault: "deny" }, "Grep", { pattern: "milk" }), "deny");
+    assert.equal(classify({ ...list, readVault: "deny" }, "Glob", { pattern: "**/*.md" }), "allow");
+    assert.equal(
+      classify({ ...list, readVault: "allow" }, "Grep", { pattern: "milk" }, privateFolder),
+      "deny"
+    );
+    assert.equal(
+      classify({ ...list, readVault: "allow" }, "Grep", { pattern: "milk", path: "Projects" }, privateFolder),
+      "allow"
+    );
+  });
+
+  it("ignores case in paths where the filesystem does", () => {
+    const privateFolder: FolderRule[] = [{ pattern: "Private/**", operation: "read", effect: "deny" }];
+    const list = { listVaultStructure: "allow" as const, readVault: "allow" as const };
+
+    const readSecret = () =>
+      classify({ readVault: "allow" }, "Read", { file_path: "private/secret.md" }, privateFolder);
+
+    assert.equal(readSecret(), "allow");
+    assert.equal(classify({ readVault: "deny" }, "Read", { file_path: "notes/TODO.md" }), "deny");
+    ignoringCase(() => {
+      assert.equal(readSecret(), "deny");
+      assert.equal(classify(list, "Grep", { pattern: "milk", path: "PRIVATE" }, privateFolder), "deny");
+      assert.equal(classify({ readVault: "deny" }, "Read", { file_path: "notes/TODO.md" }), "allow");
+      assert.equal(classify({ readVault: "deny" }, "Read", { file_path: "NOTES/Attached.md" }), "allow");
+    });
+  });
+
+  it("asks to create a note under the create permission", () => {
+    assert.equal(classify({ createFiles: "ask" }, "Write", { file_path: "Notes/new.md" }), "ask");
+    assert.equal(classify({ editCurrentFile: "allow" }, "Edit", { file_path: "Notes/todo.md" }), "allow");
+    assert.equal(classify({ editCurrentFile: "allow" }, "Edit", { file_path: "Notes/other.md" }), "deny");
+  });
+});
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildSystemPrompt } from "../src/claude-runner";
+import { ClaudianPermissions, buildPermissionInstructions, buildToolsList } from "../src/settings";
+import type { FolderRule } from "../src/folder-rules";
+import { testSettings } from "./helpers";
+
+function withPermissions(permissions: Partial<ClaudianPermissions>, folderRules: FolderRule[] = []) {
+  return testSettings({
+    permissions: { ...testSettings().permissions, ...permissions },
+    folderRules,
+  });
+}
+
+describe("buildToolsList", () => {
+  it("only offers Read when everything is denied", () => {
+    assert.deepEqual(buildToolsList(withPermissions({})), ["Read"]);
+  });
+
+  it("offers the listing tools for list permission", () => {
+    assert.deepEqual(buildToolsList(withPermissions({ listVaultStructure: "ask" })), [
+      "Read",
+      "Glob",
+      "Grep",
+      "LS",
+    ]);
+  });
+
+  it("offers Edit for editing the current file only", () => {
+    assert.deepEqual(buildToolsList(withPermissions({ editCurrentFile: "allow" })), ["Read", "Edit"]);
+  });
+
+  it("offers Edit and Write for editing any file", () => {
+    assert.deepEqual(buildToolsList(withPermissions({ editAnyFile: "ask" })), ["Read", "Edit", "Write"]);
+  });
+
+  it("offers Write for creating files", () => {
+    assert.deepEqual(buildToolsList(withPermissions({ createFiles: "allow" })), ["Read", "Write"]);
+  });
+
+  it("offers the tools that allowing folder rules need", () => {
+    const tools = buildToolsList(
+      withPermissions({}, [
+        { pattern: "Projects/**", operation: "list", effect: "allow" },
+        { pattern: "Projects/**", operation: "edit", effect: "allow" },
+        { pattern: "Inbox/", operation: "create", effect: "allow" },
+      ])
+    );
+    assert.deepEqual(tools, ["Read", "Glob", "Grep", "LS", "Edit", "Write"]);
+  });
+
+  it("adds nothing for denying folder rules", () => {
+    const tools = buildToolsList(
+      withPermissions({}, [{ pattern: "Private/**", operation: "edit", effect: "deny" }])
+    );
+    assert.deepEqual(tools, ["Read"]);
+  });
+});
+
+describe("buildPermissionInstructions", () => {
+  it("restricts reading to the active file by default", () => {
+    const text = buildPermissionInstructions(withPermissions({}), "Notes/a.md");
+    assert.match(text, /- Read files: RESTRICTED — you may only read the currently active file: Notes\/a\.md/);
+    assert.match(text, /- List vault structure \(Glob, Grep, LS\): NO/);
+    assert.match(text, /- Edit files: NO/);
+    assert.match(text, /- Create new files: NO/);
+  });
+
+  it("forbids all reading without an active file", () => {
+    const text = buildPermissionInstructions(withPermissions({}), null);
+    assert.match(text, /no file is currently active, you may not read any files/);
+  });
+
+  it("marks ask permissions as needing approval", () => {
+    const text = buildPermissionInstructions(
+      withPermissions({ readVault: "ask", listVaultStructure: "ask", createFiles: "ask" }),
+      "Notes/a.md"
+    );
+    assert.match(text, /- Read files: ASK — you may read the currently active file \(Notes\/a\.md\) freely/);
+    assert.match(text, /- List vault structure \(Glob, Grep, LS\): ASK \(each use requires the user's approval/);
+    assert.match(text, /- Create new files: ASK/);
+  });
+
+  it("allows editing the active file freely when other files need approval", () => {
+    const text = buildPermissionInstructions(
+      withPermissions({ editCurrentFile: "allow", editAnyFile: "ask" }),
+      "Notes/a.md"
+    );
+    assert.match(
+      text,
+      /- Edit files: you may edit the currently active file \(Notes\/a\.md\) freely; editing any other file is ASK/
+    );
+  });
+
+  it("describes editing only the active file", () => {
+    const settings = withPermissions({ editCurrentFile: "ask" });
+    assert.match(
+      buildPermissionInstructions(settings, "Notes/a.md"),
+      /- Edit files: RESTRICTED — you may only edit the currently active file: Notes\/a\.md \(each use/
+    );
+    assert.match(buildPermissionInstructions(settings, null), /- Edit files: RESTRICTED — no file is currently active/);
+  });
+
+  it("lists folder rules with normalized patterns", () => {
+    const text = buildPermissionInstructions(
+      withPermissions({ readVault: "allow", editAnyFile: "allow" }, [
+        { pattern: "/Projects/", operation: "edit", effect: "allow" },
+        { pattern: "Private/**", operation: "read", effect: "deny" },
+        { pattern: "   ", operation: "list", effect: "allow" },
+      ]),
+      null
+    );
+    assert.match(text, /- Read files: YES/);
+    assert.match(text, /- Edit any file: YES/);
+    assert.match(text, /- Edit `Projects\/\*\*`: ALLOWED/);
+    assert.match(text, /- Read `Private\/\*\*`: NEVER/);
+    // Blank patterns are skipped
+    assert.doesNotMatch(text, /- List `/);
+  });
+
+  it("leaves out the folder rules section when there are none", () => {
+    assert.doesNotMatch(buildPermissionInstructions(withPermissions({}), null), /Folder rules/);
+  });
+});
+
+describe("buildSystemPrompt", () => {
+  it("describes the vault and the active file", () => {
+    const prompt = buildSystemPrompt("/vault", "Notes/a.md", withPermissions({}));
+    assert.match(prompt, /^You are Claude Code running inside Obsidian/);
+    assert.match(prompt, /Vault root: \/vault\nCurrently active file: Notes\/a\.md/);
+    assert.match(prompt, /## File Path Guidelines/);
+    assert.match(prompt, /## Permissions/);
+    assert.doesNotMatch(prompt, /## Mode/);
+    assert.doesNotMatch(prompt, /## Attached Notes/);
+    assert.doesNotMatch(prompt, /## Editor Context/);
+  });
+
+  it("says when no file is active", () => {
+    assert.match(buildSystemPrompt("/vault", null, withPermissions({})), /Currently active file: \(none\)/);
+  });
+
+  it("lists attached notes", () => {
+    const prompt = buildSystemPrompt("/vault", null, withPermissions({}), false, undefined, false, [
+      "Notes/a.md",
+      "Notes/b.md",
+    ]);
+    assert.match(prompt, /## Attached Notes[\s\S]*- Notes\/a\.md\n- Notes\/b\.md/);
+  });
+
+  it("adds quick-action mode", () => {
+    assert.match(buildSystemPrompt("/vault", null, withPermissions({}), true), /## Mode\n\nYou are operating in quick-action mode/);
+  });
+
+  it("includes the editor context after the permissions", () => {
+    const prompt = buildSystemPrompt(
+      "/vault",
+      "Notes/a.md",
+      withPermissions({}),
+      false,
+      { selection: "picked text", cursorLine: 3, lineText: "  a line ", heading: "## Goals", section: "Goal one" },
+      false
+    );
+    assert.ok(prompt.indexOf("## Permissions") < prompt.indexOf("## Editor Context"));
+    assert.match(prompt, /Cursor is on line 3: a line/);
+    assert.match(prompt, /<selection>\npicked text\n<\/selection>/);
+    assert.match(prompt, /The cursor is in the section under "## Goals":/);
+  });
+});
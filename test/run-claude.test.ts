@@ -0,0 +1,258 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { afterEach, describe, it } from "node:test";
+import { ClaudeRunner, RunClaudeOptions, runClaude } from "../src/claude-runner";
+import type { ClaudianSettings } from "../src/settings";
+import {
+  FakeClaudeRun,
+  Recording,
+  argValue,
+  isAlive,
+  recordingCallbacks,
+  sleep,
+  testSettings,
+  waitFor,
+} from "./helpers";
+
+let fake: FakeClaudeRun | null = null;
+
+afterEach(() => {
+  fake?.dispose();
+  fake = null;
+});
+
+interface StartedRun {
+  runner: ClaudeRunner;
+  recording: Recording;
+  settled: Promise<void>;
+}
+
+function start(
+  transcripts: string[],
+  settings: Partial<ClaudianSettings> = {},
+  options: Partial<RunClaudeOptions> = {}
+): StartedRun {
+  fake = new FakeClaudeRun(transcripts);
+  const { callbacks, recording, settled } = recordingCallbacks();
+  const runner = runClaude({
+    prompt: "Summarize my tasks",
+    vaultPath: fake.vaultPath,
+    currentFilePath: "Notes/todo.md",
+    settings: testSettings(settings),
+    callbacks,
+    ...options,
+  });
+  return { runner, recording, settled };
+}
+
+/**
+ * Waits for the run to settle and for its last process to be gone, then
+ * checks it settled exactly once.
+ */
+async function finish({ recording, settled }: StartedRun): Promise<Recording> {
+  await settled;
+  const invocations = fake?.invocations() ?? [];
+  const last = invocations[invocations.length - 1];
+  if (last) {
+    await waitFor(() => !isAlive(last.pid));
+    // The rules file goes when the process closes
+    await waitFor(() => !fs.existsSync(argValue(last.args, "--settings") ?? ""));
+  }
+  // Anything a late close handler would report has arrived by now
+  await sleep(50);
+  assert.equal(recording.done.length + recording.errors.length, 1, "settles exactly once");
+  return recording;
+}
+
+describe("runClaude", () => {
+  it("reports a successful run", async () => {
+    const recording = await finish(start(["success"], { model: "claude-test" }));
+
+    assert.deepEqual(recording.errors, []);
+    assert.deepEqual(recording.inits, [{ sessionId: "sess-success", tools: ["Read", "Edit"] }]);
+    assert.deepEqual(recording.texts, ["Let me look at the note.", "You have one open task."]);
+    assert.equal(recording.toolUses[0].name, "Read");
+    assert.equal(recording.toolResults[0].content, "- [ ] buy milk");
+    assert.equal(recording.done[0].costUsd, 0.0123);
+    assert.equal(recording.done[0].model, "claude-test");
+    assert.equal(recording.done[0].sessionId, "sess-success");
+    assert.equal(recording.done[0].messageUuid, "uuid-2");
+  });
+
+  it("passes the prompt, model, system prompt and rules file", async () => {
+    await finish(start(["success"], { model: "claude-test" }));
+    const [{ args }] = fake?.invocations() ?? [];
+
+    assert.deepEqual(args.slice(0, 2), ["-p", "Summarize my tasks"]);
+    assert.equal(argValue(args, "--output-format"), "stream-json");
+    assert.ok(args.includes("--verbose"));
+    assert.ok(args.includes("--include-partial-messages"));
+    assert.equal(argValue(args, "--model"), "claude-test");
+    assert.match(argValue(args, "--system-prompt") ?? "", /Currently active file: Notes\/todo\.md/);
+    assert.match(argValue(args, "--settings") ?? "", /settings\.json$/);
+    assert.ok(!args.includes("--resume"));
+    assert.ok(!args.includes("--max-turns"));
+    // No permission bridge, so nothing can be asked
+    assert.ok(!args.includes("--permission-prompt-tool"));
+  });
+
+  it("resumes a session and passes the turn limit", async () => {
+    await finish(start(["success"], { maxTurns: 5 }, { sessionId: "sess-earlier" }));
+    const [{ args }] = fake?.invocations() ?? [];
+
+    assert.equal(argValue(args, "--resume"), "sess-earlier");
+    assert.equal(argValue(args, "--max-turns"), "5");
+  });
+
+  it("reassembles lines split across writes and ignores stderr noise", async () => {
+    const recording = await finish(start(["partial-lines"]));
+
+    assert.deepEqual(recording.errors, []);
+    assert.deepEqual(recording.inits, [{ sessionId: "sess-partial", tools: [] }]);
+    assert.deepEqual(recording.texts, ["Hello, wörld"]);
+    // The result line had no trailing newline and was flushed at exit
+    assert.equal(recording.done[0].sessionId, "sess-partial");
+  });
+
+  it("streams partial messages", async () => {
+    const recording = await finish(start(["stream-partial"]));
+
+    assert.deepEqual(recording.thinking, ["The user wants ", "a greeting."]);
+    assert.deepEqual(recording.texts, ["Hi ", "there."]);
+    assert.equal(recording.done.length, 1);
+  });
+
+  it("reports a crash with the exit code and stderr", async () => {
+    const recording = await finish(start(["crash"]));
+
+    assert.deepEqual(recording.texts, ["Working on it"]);
+    const [error] = recording.errors;
+    assert.equal(error.kind, "failed");
+    assert.equal(error.message, "Claude exited with code 3: TypeError: Cannot read properties of undefined");
+    assert.match(error.stderr, /at Object\.<anonymous>[\s\S]*TypeError/);
+  });
+
+  it("reports an exit without a result", async () => {
+    const recording = await finish(start(["no-result"]));
+
+    assert.equal(recording.errors[0].kind, "failed");
+    assert.match(recording.errors[0].message, /^Claude exited without a result\./);
+  });
+
+  it("reports a process killed by a signal", async () => {
+    const recording = await finish(start(["killed"]));
+
+    assert.equal(recording.errors[0].kind, "killed");
+    assert.match(recording.errors[0].message, /stopped by SIGKILL/);
+  });
+
+  it("recognises a login failure from stderr", async () => {
+    const recording = await finish(start(["not-logged-in"]));
+
+    assert.equal(recording.errors[0].kind, "auth");
+    assert.match(recording.errors[0].stderr, /Invalid API key/);
+  });
+
+  it("reports the turn limit", async () => {
+    const recording = await finish(start(["max-turns"]));
+
+    assert.equal(recording.errors[0].kind, "maxTurns");
+  });
+
+  it("reports a missing binary", async () => {
+    const run = start(["success"], { claudeBinaryPath: "/nonexistent/claude" });
+    const recording = await finish(run);
+
+    assert.equal(recording.errors[0].kind, "notFound");
+    assert.match(recording.errors[0].message, /Claude binary not found at "\/nonexistent\/claude"/);
+  });
+
+  it("calls nothing after kill and stops the process", async () => {
+    const run = start(["slow"]);
+    await waitFor(() => run.recording.texts.length > 0);
+    const [{ pid, args }] = fake?.invocations() ?? [];
+
+    run.runner.kill();
+    assert.ok(!fs.existsSync(argValue(args, "--settings") ?? ""), "rules file removed on kill");
+    await waitFor(() => !isAlive(pid));
+    await sleep(400);
+
+    assert.deepEqual(run.recording.texts, ["Thinking slowly"]);
+    assert.deepEqual(run.recording.done, []);
+    assert.deepEqual(run.recording.errors, []);
+  });
+
+  it("times out, escalating to SIGKILL when SIGTERM is ignored", { timeout: 15_000 }, async () => {
+    // 0.005 minutes is 300 ms
+    const run = start(["stubborn"], { timeoutMinutes: 0.005 });
+    await run.settled;
+    const [{ pid }] = fake?.invocations() ?? [];
+
+    assert.equal(run.recording.errors[0]?.kind, "timeout");
+    assert.match(run.recording.errors[0].message, /^Stopped: timeout\./);
+    // Still alive after SIGTERM, until the grace period runs out
+    await sleep(500);
+    assert.ok(isAlive(pid), "survives SIGTERM");
+    await waitFor(() => !isAlive(pid), 8000);
+    await finish(run);
+    // Printed after the timeout, while the process was still shutting down
+    assert.deepEqual(run.recording.texts, []);
+  });
+
+  describe("retries", () => {
+    it("retries a rate-limited run, resuming its session", async () => {
+      const recording = await finish(
+        start(["rate-limited", "resumed"], { retryAttempts: 2, retryDelaySeconds: 0.05 })
+      );
+      const invocations = fake?.invocations() ?? [];
+
+      assert.equal(recording.retries.length, 1);
+      assert.equal(recording.retries[0].error.kind, "rateLimited");
+      assert.equal(recording.retries[0].attempt, 1);
+      assert.equal(recording.retries[0].maxAttempts, 2);
+      assert.equal(invocations.length, 2);
+      assert.ok(!invocations[0].args.includes("--resume"));
+      assert.equal(argValue(invocations[1].args, "--resume"), "sess-retry");
+      assert.deepEqual(recording.texts, ["Starting", "Done after retrying"]);
+      assert.equal(recording.done[0].sessionId, "sess-retry");
+    });
+
+    it("gives up after the last attempt", async () => {
+      const recording = await finish(
+        start(["rate-limited"], { retryAttempts: 2, retryDelaySeconds: 0.05 })
+      );
+
+      assert.equal(fake?.invocations().length, 3);
+      assert.equal(recording.retries.length, 2);
+      assert.equal(recording.errors[0].kind, "rateLimited");
+    });
+
+    it("does not retry other failures", async () => {
+      const recording = await finish(start(["crash"], { retryAttempts: 2, retryDelaySeconds: 0.05 }));
+
+      assert.equal(fake?.invocations().length, 1);
+      assert.deepEqual(recording.retries, []);
+    });
+
+    it("ends with the error when a retry is given up", async () => {
+      const run = start(["rate-limited", "resumed"], { retryAttempts: 2, retryDelaySeconds: 60 });
+      await waitFor(() => run.recording.retries.length > 0);
+      run.recording.retries[0].giveUp();
+      const recording = await finish(run);
+
+      assert.equal(recording.errors[0].kind, "rateLimited");
+      assert.ok(!recording.retries[0].isWaiting());
+      assert.equal(fake?.invocations().length, 1);
+    });
+
+    it("retries at once on request", async () => {
+      const run = start(["rate-limited", "resumed"], { retryAttempts: 2, retryDelaySeconds: 60 });
+      await waitFor(() => run.recording.retries.length > 0);
+      run.recording.retries[0].retryNow();
+      const recording = await finish(run);
+
+      assert.equal(recording.done.length, 1);
+      assert.equal(fake?.invocations().length, 2);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+// Bundles each test/*.test.ts with esbuild, "obsidian" resolving to a stub,
+// and runs the bundles with Node's test runner.
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+import { fileURLToPath } from "url";
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "qlaude-tests-"));
+const only = process.argv.slice(2);
+const entries = fs
+  .readdirSync(testDir)
+  .filter((name) => name.endsWith(".test.ts"))
+  .filter((name) => only.length === 0 || only.some((filter) => name.includes(filter)));
+
+let status = 1;
+try {
+  await esbuild.build({
+    entryPoints: entries.map((name) => path.join(testDir, name)),
+    bundle: true,
+    platform: "node",
+    format: "cjs",
+    target: "node18",
+    outdir: outDir,
+    alias: { obsidian: path.join(testDir, "obsidian-stub.ts") },
+    sourcemap: "inline",
+    logLevel: "warning",
+  });
+
+  const result = spawnSync(
+    process.execPath,
+    ["--enable-source-maps", "--test", ...entries.map((name) => path.join(outDir, name.replace(/\.ts$/, ".js")))],
+    { stdio: "inherit", env: { ...process.env, QLAUDE_TEST_DIR: testDir } }
+  );
+  status = result.status ?? 1;
+} finally {
+  fs.rmSync(outDir, { recursive: true, force: true });
+}
+process.exit(status);
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { afterEach, describe, it } from "node:test";
+import { runClaude } from "../src/claude-runner";
+import { Transcript, TranscriptStore, replayTranscript } from "../src/transcripts";
+import { FakeClaudeRun, argValue, recordingCallbacks, sleep, testSettings, waitFor } from "./helpers";
+
+let fake: FakeClaudeRun | null = null;
+
+afterEach(() => {
+  fake?.dispose();
+  fake = null;
+});
+
+// Runs a fixture with recording on and returns the transcript it left
+async function record(fixtureName: string): Promise<Transcript> {
+  fake = new FakeClaudeRun([fixtureName]);
+  const folder = path.join(fake.dir, "transcripts");
+  const transcripts = new TranscriptStore(() => folder, () => true);
+  const { callbacks, settled } = recordingCallbacks();
+  runClaude({
+    prompt: "Say hello",
+    vaultPath: fake.vaultPath,
+    currentFilePath: null,
+    settings: testSettings({ model: "claude-test" }),
+    callbacks,
+    transcripts,
+  });
+  await settled;
+  // The file is complete once the exit entry is written
+  await waitFor(() => {
+    const [file] = transcripts.list();
+    return !!file && fs.readFileSync(file, "utf8").includes('"type":"exit"');
+  });
+  return transcripts.read(transcripts.list()[0]);
+}
+
+function replay(transcript: Transcript) {
+  const { callbacks, recording, settled } = recordingCallbacks();
+  const inputs: string[] = [];
+  const invalidLines: string[] = [];
+  replayTranscript(transcript, {
+    ...callbacks,
+    onInput: (text) => inputs.push(text),
+    onInvalidLine: (line) => invalidLines.push(line),
+  });
+  return { recording, settled, inputs, invalidLines };
+}
+
+describe("debug transcripts", () => {
+  it("records the arguments, raw output and exit", async () => {
+    const transcript = await record("partial-lines");
+
+    assert.equal(transcript.start.prompt, "Say hello");
+    assert.equal(transcript.start.cwd, fake?.vaultPath);
+    assert.match(argValue(transcript.start.args, "--system-prompt") ?? "", /^You are Claude Code running inside Obsidian/);
+
+    const stdout = transcript.entries.filter((e) => e.type === "stdout");
+    assert.deepEqual(
+      stdout.map((e) => e.type === "stdout" && e.outcome),
+      ["handled", "handled", "invalid", "handled"]
+    );
+    const stderr = transcript.entries.filter((e) => e.type === "stderr");
+    assert.match(stderr.map((e) => e.type === "stderr" && e.text).join(""), /^Warning: an update is available/);
+    assert.deepEqual(transcript.entries[transcript.entries.length - 1].type, "exit");
+    assert.ok(transcript.entries.every((e, i, all) => i === 0 || e.t >= all[i - 1].t), "timings ascend");
+  });
+
+  it("records nothing when turned off", async () => {
+    fake = new FakeClaudeRun(["success"]);
+    const folder = path.join(fake.dir, "transcripts");
+    const store = new TranscriptStore(() => folder, () => false);
+    const { callbacks, settled } = recordingCallbacks();
+    runClaude({
+      prompt: "Say hello",
+      vaultPath: fake.vaultPath,
+      currentFilePath: null,
+      settings: testSettings(),
+      callbacks,
+      transcripts: store,
+    });
+    await settled;
+
+    assert.deepEqual(store.list(), []);
+    assert.ok(!fs.existsSync(folder));
+  });
+
+  it("replays a run without the CLI", async () => {
+    const transcript = await record("success");
+    const invocations = fake?.invocations().length;
+    const { recording, settled, inputs, invalidLines } = replay(transcript);
+    await settled;
+
+    assert.equal(fake?.invocations().length, invocations);
+    assert.deepEqual(inputs, ["Say hello"]);
+    assert.deepEqual(invalidLines, []);
+    assert.deepEqual(recording.texts, ["Let me look at the note.", "You have one open task."]);
+    assert.equal(recording.toolResults[0].content, "- [ ] buy milk");
+    assert.equal(recording.done[0].costUsd, 0.0123);
+    assert.equal(recording.done[0].model, "claude-test");
+    assert.deepEqual(recording.errors, []);
+  });
+
+  it("replays a crash with its stderr and shows output that isn't JSON", async () => {
+    const crashed = replay(await record("crash"));
+    await crashed.settled;
+    assert.equal(crashed.recording.errors[0].message, "Claude exited with code 3: TypeError: Cannot read properties of undefined");
+    assert.match(crashed.recording.errors[0].stderr, /TypeError/);
+
+    fake?.dispose();
+    const partial = replay(await record("partial-lines"));
+    await partial.settled;
+    assert.deepEqual(partial.invalidLines, ["not json at all"]);
+    assert.equal(partial.recording.done.length, 1);
+  });
+
+  it("keeps only the newest transcripts", async () => {
+    fake = new FakeClaudeRun(["success"]);
+    const folder = path.join(fake.dir, "transcripts");
+    fs.mkdirSync(folder);
+    for (let i = 0; i < 60; i++) {
+      fs.writeFileSync(path.join(folder, `2000-01-01-0000${String(i).padStart(2, "0")}-old.jsonl`), "");
+    }
+    const store = new TranscriptStore(() => folder, () => true);
+    const recorder = store.begin("claude", [], fake.vaultPath, "Say hello");
+
+    const files = store.list();
+    assert.equal(files.length, 50);
+    assert.equal(files[0], recorder?.file);
+    assert.ok(!files.some((f) => f.endsWith("000000-old.jsonl")));
+    // Let the file stream open before the folder is removed
+    await sleep(50);
+  });
+
+  it("rejects files that aren't transcripts", () => {
+    fake = new FakeClaudeRun(["success"]);
+    const file = path.join(fake.dir, "other.jsonl");
+    fs.writeFileSync(file, '{"type":"stdout","t":0,"line":"x"}\n');
+
+    assert.throws(() => new TranscriptStore(() => fake?.dir ?? null, () => true).read(file), /is not a Qlaude transcript/);
+  });
+});